@@ -1,12 +1,11 @@
 'use client';
 
-import { useEffect, useMemo, useState } from 'react';
+import { useMemo, useState } from 'react';
 import {
   DEFAULT_CHAIN_CONFIGS,
-  decodeBase64Json,
-  type X402PaymentRequired,
   X402Paywall,
   type ThemeConfig,
+  type X402SuccessContext,
 } from 'x402-react-paywall';
 
 const themes: Record<string, ThemeConfig> = {
@@ -111,7 +110,6 @@ function shiftHexColor(hex: string, amount: number) {
 }
 
 export default function App() {
-  const [paymentRequired, setPaymentRequired] = useState<X402PaymentRequired | null>(null);
   const [themeKey, setThemeKey] = useState(DEFAULT_THEME_KEY);
   const [resourceDescription, setResourceDescription] = useState(
     'Pay to view the protected resource',
@@ -125,36 +123,6 @@ export default function App() {
   const [paymentError, setPaymentError] = useState<string | null>(null);
   const [copiedTarget, setCopiedTarget] = useState<CopyTarget | null>(null);
 
-  useEffect(() => {
-    let mounted = true;
-
-    const loadPaymentRequired = async () => {
-      const res = await fetch(DEMO_URL, { headers: { Accept: 'application/json' } });
-      if (!mounted) return;
-
-      if (res.status === 402) {
-        const header = res.headers.get('PAYMENT') || res.headers.get('X-PAYMENT');
-        const decoded = decodeBase64Json<X402PaymentRequired>(header);
-        if (decoded) {
-          setPaymentRequired(decoded);
-          return;
-        }
-
-        const body = (await res.json().catch(() => null)) as {
-          paymentRequired?: X402PaymentRequired;
-        } | null;
-        if (body?.paymentRequired) {
-          setPaymentRequired(body.paymentRequired);
-        }
-      }
-    };
-
-    loadPaymentRequired();
-    return () => {
-      mounted = false;
-    };
-  }, []);
-
   const resolvedTheme =
     themeKey === CUSTOM_THEME_KEY
       ? customTheme
@@ -196,10 +164,7 @@ export default function App() {
     setCustomTheme((current: ThemeConfig) => ({ ...current, ...patch }));
   };
 
-  const handleSuccess = (
-    result: unknown,
-    context: { response: Response; paymentHeader: string },
-  ) => {
+  const handleSuccess = (result: unknown, context: X402SuccessContext) => {
     setPaymentResult(result);
     setPaymentHeader(context.paymentHeader);
     setPaymentError(null);
@@ -538,31 +503,25 @@ export default function App() {
         </div>
 
         <div className="app__preview">
-          {paymentRequired ? (
-            <div className="preview-frame">
-              <X402Paywall
-                paymentRequired={paymentRequired}
-                currentUrl={DEMO_URL}
-                testnet
-                chainConfigs={DEFAULT_CHAIN_CONFIGS}
-                resourceDescription={resolvedDescription}
-                theme={resolvedTheme}
-                showBalances={showBalances}
-                onSuccess={handleSuccess}
-                onError={handleError}
-              />
-            </div>
-          ) : (
-            <div className="panel">
-              <h3>Waiting for payment requirements...</h3>
-              <p className="helper">Start the dev server and refresh this page.</p>
-            </div>
-          )}
+          <div className="preview-frame">
+            <X402Paywall
+              resourceUrl={DEMO_URL}
+              testnet
+              chainConfigs={DEFAULT_CHAIN_CONFIGS}
+              resourceDescription={resolvedDescription}
+              theme={resolvedTheme}
+              showBalances={showBalances}
+              showDiagnostics
+              renderContent
+              onSuccess={handleSuccess}
+              onError={handleError}
+            />
+          </div>
         </div>
       </div>
 
       <div className="footer">
-        Demo server only: no real funds are transferred. Signatures are accepted as-is.
+        Demo server only: no real funds are transferred. Payments are settled by an in-process mock facilitator.
       </div>
     </div>
   );
@@ -30,7 +30,8 @@ const nextConfig = {
       '@wagmi/connectors': path.resolve(exampleNodeModules, '@wagmi/connectors'),
       '@wagmi/core': path.resolve(exampleNodeModules, '@wagmi/core'),
       viem: path.resolve(exampleNodeModules, 'viem'),
-      'x402-react-paywall': path.resolve(__dirname, '../src/index.ts'),
+      'x402-react-paywall$': path.resolve(__dirname, '../src/index.ts'),
+      'x402-react-paywall/server': path.resolve(__dirname, '../src/server/index.ts'),
       'x402-react-paywall/styles.css': path.resolve(__dirname, '../src/paywall.css'),
     };
 
@@ -1,118 +1,35 @@
 'use client';
 
 import React, { useMemo } from 'react';
-import {
-  useAccount,
-  useAccountEffect,
-  useConnectors,
-  useDisconnect,
-} from 'wagmi';
 import { DEFAULT_THEME, X402_PROTOCOL_URL } from './constants';
-import type { X402PaywallProps } from './types';
-import { formatAmount, shortenAddress } from './utils';
-import {
-  getAmountAtomic,
-  parseAmountDisplay,
-  pickRequirement,
-  resolveChain,
-} from './paywall-helpers';
-import {
-  useActionLock,
-  useBalanceData,
-  useConnectorConnect,
-  useConnectorAvailability,
-  usePaywallStatus,
-  usePaymentSubmission,
-} from './paywall-hooks';
+import type {
+  ThemeConfig,
+  X402Messages,
+  X402PaymentOptions,
+  X402PaywallBaseProps,
+  X402PaywallComponents,
+  X402PaywallProps,
+  X402PaywallSectionProps,
+} from './types';
+import { formatCountdown, formatTokenAmount, shortenAddress } from './utils';
+import { formatBalanceDisplay } from './paywall-helpers';
+import { formatMessage, resolveMessages } from './messages';
+import { X402Content } from './content-renderers';
+import { usePaymentRequired } from './paywall-hooks';
+import { useX402Payment } from './use-x402-payment';
 
-export function X402Paywall(props: X402PaywallProps) {
-  const {
-    paymentRequired,
-    currentUrl,
-    acceptIndex = 0,
-    theme = DEFAULT_THEME,
-    chainConfig,
-    chainConfigs,
-    resourceDescription,
-    testnet = false,
-    showBalances = true,
-    requestInit,
-    onSuccess,
-    onError,
-    className,
-  } = props;
+function PaywallFrame(props: {
+  theme: ThemeConfig;
+  messages: X402Messages;
+  className?: string;
+  children: React.ReactNode;
+}) {
+  const { theme, messages, className, children } = props;
 
-  const {
-    status,
-    errorMessage,
-    processingText,
-    setStatus,
-    setProcessingText,
-    showError,
-    resetState,
-  } = usePaywallStatus({ onError });
-  const { beginAction, endAction, isActionStale, resetAction, isActionBusy } =
-    useActionLock();
-
-  const account = useAccount();
-  const connectors = useConnectors();
-  const disconnect = useDisconnect();
-
-  const accepts = paymentRequired.accepts;
-  const requirement = useMemo(
-    () => pickRequirement(accepts, acceptIndex),
-    [accepts, acceptIndex],
-  );
-  const resolvedChain = resolveChain(requirement, chainConfig, chainConfigs);
-  const amountAtomic = getAmountAtomic(requirement);
-  const amountDisplay = parseAmountDisplay(amountAtomic);
-  const normalizedDescription = resourceDescription?.trim();
-  const description =
-    normalizedDescription ||
-    requirement?.description ||
-    requirement?.resource ||
-    'Access this resource';
   const brandName =
     theme.appName?.trim() || DEFAULT_THEME.appName || 'x402 Paywall';
   const brandLogo = theme.appLogo?.trim() || DEFAULT_THEME.appLogo || '';
 
-  const connectorAvailability = useConnectorAvailability(connectors, account.status);
-  const { balances, isLoading: isLoadingBalances } = useBalanceData({
-    accepts,
-    chainConfig,
-    chainConfigs,
-    address: account.address,
-    showBalances,
-  });
-  const paymentSubmission = usePaymentSubmission({
-    accountAddress: account.address,
-    accountChainId: account.chainId,
-    requirement,
-    resolvedChain,
-    amountAtomic,
-    paymentRequired,
-    currentUrl,
-    requestInit,
-    onSuccess,
-    beginAction,
-    endAction,
-    isActionStale,
-    setStatus,
-    setProcessingText,
-    showError,
-  });
-  const connectorConnect = useConnectorConnect({
-    accountStatus: account.status,
-    resolvedChain,
-    onConnected: () => setStatus('connected'),
-    beginAction,
-    endAction,
-    isActionStale,
-    setStatus,
-    setProcessingText,
-    showError,
-  });
-
   const themeStyle = useMemo(
     () =>
       ({
@@ -129,48 +46,6 @@ export function X402Paywall(props: X402PaywallProps) {
     [theme],
   );
 
-  const isConnected = account.status === 'connected';
-
-  const resetPaywall = (nextStatus: 'connect' | 'connected' = 'connect') => {
-    resetAction();
-    resetState(nextStatus);
-  };
-
-  useAccountEffect({
-    onConnect() {
-      if (status !== 'success') {
-        setStatus('connected');
-      }
-    },
-    onDisconnect() {
-      endAction();
-      resetPaywall('connect');
-    },
-  });
-
-  function handleDisconnect() {
-    disconnect.mutate();
-  }
-
-  function handleRetry() {
-    resetPaywall(isConnected ? 'connected' : 'connect');
-  }
-
-  const resolvedChainName = resolvedChain?.name || 'Unknown chain';
-
-  const hasRequirements = Boolean(
-    requirement &&
-      resolvedChain &&
-      amountAtomic &&
-      requirement.payTo &&
-      requirement.asset,
-  );
-  const isBusy =
-    isActionBusy ||
-    status === 'processing' ||
-    connectorConnect.isPending ||
-    paymentSubmission.isPending;
-
   return (
     <div
       className={`x402-paywall ${className ? className : ''}`.trim()}
@@ -182,7 +57,7 @@ export function X402Paywall(props: X402PaywallProps) {
           {brandLogo ? (
             <img
               src={brandLogo}
-              alt={brandName || 'App logo'}
+              alt={brandName || messages.appLogoAlt}
               className="x402-paywall__logo"
             />
           ) : (
@@ -192,171 +67,523 @@ export function X402Paywall(props: X402PaywallProps) {
           )}
           <div className="x402-paywall__brand-text">
             <span className="x402-paywall__brand-name">{brandName}</span>
-            <span className="x402-paywall__brand-caption">Secure x402 checkout</span>
+            <span className="x402-paywall__brand-caption">{messages.secureCheckout}</span>
           </div>
         </div>
 
-        <div className="x402-paywall__header">
-          <h1>Unlock access</h1>
-          <p>{description}</p>
-        </div>
+        {children}
+      </div>
 
-        <div className="x402-paywall__price">
-          <div className="x402-paywall__price-main">
-            <span className="x402-paywall__amount">{amountDisplay}</span>
-            <span className="x402-paywall__unit">USDC</span>
-          </div>
-          <div className="x402-paywall__chain x402-paywall__price-meta">
-            <span>
-              {resolvedChainName}
-              {testnet ? ' (Testnet)' : ''}
-            </span>
-          </div>
-        </div>
+      <div className="x402-paywall__footer">
+        {messages.poweredBy}{' '}
+        <a href={X402_PROTOCOL_URL} target="_blank" rel="noreferrer">
+          x402 Protocol
+        </a>
+      </div>
+    </div>
+  );
+}
+
+function DefaultHeader({ messages, description }: X402PaywallSectionProps) {
+  return (
+    <div className="x402-paywall__header">
+      <h1>{messages.title}</h1>
+      <p>{description}</p>
+    </div>
+  );
+}
 
-        {!hasRequirements && (
-          <div className="x402-paywall__alert">
-            <strong>Missing payment configuration.</strong>
+function DefaultPrice(props: X402PaywallSectionProps) {
+  const { messages, amountDisplay, asset, chainName, testnet, status, quoteSecondsLeft } = props;
+  let expiry: string | null = null;
+  if ((status === 'connect' || status === 'connected') && quoteSecondsLeft !== null) {
+    if (props.isRefreshingQuote || (props.isQuoteExpired && !props.quoteRefreshFailed)) {
+      expiry = messages.quoteRefreshing;
+    } else if (props.quoteRefreshFailed) {
+      expiry = messages.quoteRefreshFailed;
+    } else {
+      expiry = formatMessage(messages.quoteExpiresIn, { time: formatCountdown(quoteSecondsLeft) });
+    }
+  }
+  return (
+    <div className="x402-paywall__price">
+      <div className="x402-paywall__price-main">
+        <span className="x402-paywall__amount">{amountDisplay}</span>
+        <span className="x402-paywall__unit">{asset.symbol}</span>
+      </div>
+      <div className="x402-paywall__chain x402-paywall__price-meta">
+        <span>
+          {testnet ? formatMessage(messages.testnetChain, { chain: chainName }) : chainName}
+        </span>
+        {expiry ? (
+          <span className="x402-paywall__expiry" role="timer" aria-live="off">
+            {expiry}
+          </span>
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+function DefaultDiagnostics({ messages, validationIssues }: X402PaywallSectionProps) {
+  return (
+    <div className="x402-paywall__diagnostics" role="note">
+      <strong>{messages.diagnosticsTitle}</strong>
+      <ul>
+        {validationIssues.map((issue) => (
+          <li key={`${issue.path}:${issue.code}`}>
+            <code>{issue.path}</code> {issue.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function DefaultOptions(props: X402PaywallSectionProps) {
+  const { messages, locale, requirementOptions, isBusy, selectRequirement } = props;
+  return (
+    <div className="x402-paywall__options" role="radiogroup" aria-label={messages.paymentOptions}>
+      {requirementOptions.map((option) => (
+        <button
+          key={option.index}
+          type="button"
+          role="radio"
+          aria-checked={option.selected}
+          className={`x402-paywall__option ${
+            option.selected ? 'x402-paywall__option--selected' : ''
+          }`.trim()}
+          onClick={() => selectRequirement(option.index)}
+          disabled={isBusy}
+        >
+          <span className="x402-paywall__option-main">
+            <span>{option.chainName}</span>
+            <span className="x402-paywall__option-asset">
+              {option.asset.symbol} · {shortenAddress(option.requirement.asset)}
+            </span>
+          </span>
+          <span className="x402-paywall__option-meta">
             <span>
-              Ensure the payment requirement and chain configuration are provided
-              before rendering the paywall.
+              {option.amountDisplay} {option.asset.symbol}
             </span>
-          </div>
-        )}
-
-        {status === 'connect' && (
-          <div className="x402-paywall__section">
-            {connectors.length === 0 ? (
-              <div className="x402-paywall__alert">
-                <strong>No wallet connectors configured.</strong>
-                <span>Add connectors in your Wagmi config to continue.</span>
-              </div>
-            ) : (
-              connectors.map((connector, index) => {
-                const isAuthorized = connectorAvailability[connector.uid];
-                const label =
-                  isAuthorized === false
-                    ? `Install ${connector.name}`
-                    : `Connect ${connector.name}`;
-                return (
-                  <button
-                    key={connector.uid}
-                    type="button"
-                    className={`x402-paywall__button ${
-                      index === 0
-                        ? 'x402-paywall__button--primary'
-                        : 'x402-paywall__button--ghost'
-                    }`}
-                  onClick={() => void connectorConnect.connectWithConnector(connector)}
-                    disabled={!hasRequirements || isBusy}
-                  >
-                    {label}
-                  </button>
-                );
-              })
-            )}
-          </div>
-        )}
-
-        {status === 'connected' && (
-          <div className="x402-paywall__section">
-            <div className="x402-paywall__connected">
-              <span className="x402-paywall__badge">Connected</span>
-              <span className="x402-paywall__address">
-                {account.address ? shortenAddress(account.address) : ''}
+            {option.balance && (
+              <span
+                className={
+                  option.affordable === false
+                    ? 'x402-paywall__option-balance x402-paywall__option-balance--low'
+                    : 'x402-paywall__option-balance'
+                }
+              >
+                {option.balance.error
+                  ? messages.balanceUnavailable
+                  : formatMessage(messages.optionBalance, {
+                      amount: formatBalanceDisplay(option.balance, locale),
+                    })}
               </span>
-            </div>
-
-            {showBalances && (
-              <div className="x402-paywall__balances">
-                <div className="x402-paywall__balances-header">
-                  <span>USDC Balances</span>
-                  {isLoadingBalances ? <em>Checking...</em> : null}
-                </div>
-                {balances.length === 0 && !isLoadingBalances && (
-                  <span className="x402-paywall__balances-empty">
-                    No balances available.
-                  </span>
-                )}
-                {balances.map((balance) => (
-                  <div key={balance.network} className="x402-paywall__balance-row">
-                    <span>{balance.chainName}</span>
-                    <span>
-                      {balance.error
-                        ? 'Unavailable'
-                        : formatAmount(balance.balance ?? 0)}
-                    </span>
-                  </div>
-                ))}
-              </div>
             )}
+          </span>
+        </button>
+      ))}
+    </div>
+  );
+}
 
-            <button
-              type="button"
-              className="x402-paywall__button x402-paywall__button--primary"
-              onClick={() => void paymentSubmission.signPayment()}
-              disabled={!hasRequirements || isBusy}
-            >
-              Authorize {amountDisplay} USDC
-            </button>
-            <p className="x402-paywall__hint">
-              You'll sign an authorization. No gas fees.
-            </p>
-            <button
-              type="button"
-              className="x402-paywall__button x402-paywall__button--link"
-              onClick={handleDisconnect}
-            >
-              Disconnect
-            </button>
-          </div>
-        )}
-
-        {status === 'processing' && (
-          <div className="x402-paywall__section x402-paywall__section--center">
-            <div className="x402-paywall__spinner" />
-            <p className="x402-paywall__processing">{processingText}</p>
-            <p className="x402-paywall__subtext">
-              Confirm the request in your wallet.
-            </p>
-          </div>
-        )}
-
-        {status === 'success' && (
-          <div className="x402-paywall__section">
-            <div className="x402-paywall__success">
-              <div className="x402-paywall__success-icon">✓</div>
-              <div>
-                <h2>Payment successful</h2>
-                <p>Access granted.</p>
-              </div>
-            </div>
-          </div>
-        )}
+function DefaultConnectors(props: X402PaywallSectionProps) {
+  const { messages, connectors, connectorAvailability, connect, hasRequirements, isBusy } = props;
+  if (connectors.length === 0) {
+    return (
+      <div className="x402-paywall__alert">
+        <strong>{messages.noConnectorsTitle}</strong>
+        <span>{messages.noConnectorsBody}</span>
+      </div>
+    );
+  }
+  return (
+    <>
+      {connectors.map((connector, index) => {
+        const isAuthorized = connectorAvailability[connector.uid];
+        const label = formatMessage(
+          isAuthorized === false ? messages.installConnector : messages.connectConnector,
+          { connector: connector.name },
+        );
+        return (
+          <button
+            key={connector.uid}
+            type="button"
+            className={`x402-paywall__button ${
+              index === 0 ? 'x402-paywall__button--primary' : 'x402-paywall__button--ghost'
+            }`}
+            onClick={() => void connect(connector)}
+            disabled={!hasRequirements || isBusy}
+          >
+            {label}
+          </button>
+        );
+      })}
+    </>
+  );
+}
 
-        {status === 'error' && (
-          <div className="x402-paywall__section">
-            <div className="x402-paywall__alert x402-paywall__alert--error">
-              <strong>Payment failed</strong>
-              <span>{errorMessage}</span>
-            </div>
-            <button
-              type="button"
-              className="x402-paywall__button x402-paywall__button--ghost"
-              onClick={handleRetry}
-            >
-              Try again
-            </button>
-          </div>
-        )}
+function DefaultConnected({ messages, address }: X402PaywallSectionProps) {
+  return (
+    <div className="x402-paywall__connected">
+      <span className="x402-paywall__badge">{messages.connected}</span>
+      <span className="x402-paywall__address">{address ? shortenAddress(address) : ''}</span>
+    </div>
+  );
+}
+
+function DefaultBalances(props: X402PaywallSectionProps) {
+  const { messages, locale, balances, isLoadingBalances } = props;
+  return (
+    <div className="x402-paywall__balances">
+      <div className="x402-paywall__balances-header">
+        <span>{messages.balances}</span>
+        {isLoadingBalances ? <em>{messages.checking}</em> : null}
       </div>
+      {balances.length === 0 && !isLoadingBalances && (
+        <span className="x402-paywall__balances-empty">{messages.noBalances}</span>
+      )}
+      {balances.map((balance, index) => (
+        <div key={balance.acceptIndex ?? index} className="x402-paywall__balance-row">
+          <span>{balance.chainName}</span>
+          <span>
+            {balance.error
+              ? messages.unavailable
+              : `${formatBalanceDisplay(balance, locale)} ${balance.symbol ?? ''}`.trim()}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
 
-      <div className="x402-paywall__footer">
-        Powered by{' '}
-        <a href={X402_PROTOCOL_URL} target="_blank" rel="noreferrer">
-          x402 Protocol
+function DefaultAuthorize(props: X402PaywallSectionProps) {
+  const {
+    messages,
+    locale,
+    asset,
+    amountDisplay,
+    chainName,
+    fundsCheck,
+    hasRequirements,
+    isBusy,
+    isLoadingBalances,
+    pay,
+    disconnect,
+    recheckBalance,
+    priceChange,
+    requoteReason,
+  } = props;
+  return (
+    <>
+      {(priceChange || requoteReason) && (
+        <div className="x402-paywall__alert" role="status">
+          <strong>{priceChange ? messages.priceChangedTitle : messages.requoteTitle}</strong>
+          {requoteReason && <span>{requoteReason}</span>}
+          {priceChange && (
+            <span>{formatMessage(messages.priceChangedBody, { ...priceChange })}</span>
+          )}
+        </div>
+      )}
+
+      {fundsCheck.status === 'insufficient' && (
+        <div className="x402-paywall__alert x402-paywall__alert--error">
+          <strong>{messages.insufficientFundsTitle}</strong>
+          <span>
+            {formatMessage(messages.insufficientFundsBody, {
+              amount: formatTokenAmount(fundsCheck.shortfall ?? 0n, asset.decimals, locale),
+              symbol: asset.symbol,
+              chain: chainName,
+            })}
+          </span>
+          <button
+            type="button"
+            className="x402-paywall__button x402-paywall__button--ghost"
+            onClick={recheckBalance}
+            disabled={isLoadingBalances}
+          >
+            {isLoadingBalances ? messages.checking : messages.checkAgain}
+          </button>
+        </div>
+      )}
+
+      <button
+        type="button"
+        className="x402-paywall__button x402-paywall__button--primary"
+        onClick={() => void pay()}
+        disabled={!hasRequirements || isBusy || fundsCheck.status === 'insufficient'}
+      >
+        {formatMessage(messages.authorize, { amount: amountDisplay, symbol: asset.symbol })}
+      </button>
+      <p className="x402-paywall__hint">{messages.authorizeHint}</p>
+      <button
+        type="button"
+        className="x402-paywall__button x402-paywall__button--link"
+        onClick={disconnect}
+      >
+        {messages.disconnect}
+      </button>
+    </>
+  );
+}
+
+function DefaultProcessing({ messages, processingText }: X402PaywallSectionProps) {
+  return (
+    <>
+      <div className="x402-paywall__spinner" />
+      <p className="x402-paywall__processing">{processingText}</p>
+      <p className="x402-paywall__subtext">{messages.confirmInWallet}</p>
+    </>
+  );
+}
+
+function DefaultSuccess(props: X402PaywallSectionProps) {
+  const { messages, settlement, transactionUrl, content, requirement, contentRenderers } = props;
+  return (
+    <>
+      <div className="x402-paywall__success">
+        <div className="x402-paywall__success-icon">✓</div>
+        <div>
+          <h2>{messages.paymentSuccessful}</h2>
+          <p>{messages.accessGranted}</p>
+        </div>
+      </div>
+      {transactionUrl ? (
+        <a
+          className="x402-paywall__tx-link"
+          href={transactionUrl}
+          target="_blank"
+          rel="noreferrer"
+        >
+          {formatMessage(messages.viewTransaction, {
+            hash: shortenAddress(settlement?.transaction ?? ''),
+          })}
         </a>
+      ) : null}
+      {content ? (
+        <X402Content
+          {...content}
+          requirement={requirement ?? null}
+          messages={messages}
+          registry={contentRenderers}
+        />
+      ) : null}
+    </>
+  );
+}
+
+function DefaultError({ messages, errorMessage, retry }: X402PaywallSectionProps) {
+  return (
+    <>
+      <div className="x402-paywall__alert x402-paywall__alert--error">
+        <strong>{messages.paymentFailed}</strong>
+        <span>{errorMessage}</span>
       </div>
-    </div>
+      <button
+        type="button"
+        className="x402-paywall__button x402-paywall__button--ghost"
+        onClick={retry}
+      >
+        {messages.tryAgain}
+      </button>
+    </>
   );
 }
+
+const DEFAULT_COMPONENTS: X402PaywallComponents = {
+  Header: DefaultHeader,
+  Price: DefaultPrice,
+  Diagnostics: DefaultDiagnostics,
+  Options: DefaultOptions,
+  Connectors: DefaultConnectors,
+  Connected: DefaultConnected,
+  Balances: DefaultBalances,
+  Authorize: DefaultAuthorize,
+  Processing: DefaultProcessing,
+  Success: DefaultSuccess,
+  Error: DefaultError,
+};
+
+function PaywallCheckout(props: X402PaywallBaseProps & X402PaymentOptions) {
+  const {
+    theme = DEFAULT_THEME,
+    resourceDescription,
+    testnet = false,
+    showBalances = true,
+    showDiagnostics = false,
+    className,
+  } = props;
+
+  const payment = useX402Payment(props);
+  const { status, messages, requirement, resolvedChain } = payment;
+  const components = useMemo(
+    () => ({ ...DEFAULT_COMPONENTS, ...props.components }),
+    [props.components],
+  );
+
+  const normalizedDescription = resourceDescription?.trim();
+  const description =
+    normalizedDescription ||
+    requirement?.description ||
+    requirement?.resource ||
+    messages.defaultDescription;
+  const section: X402PaywallSectionProps = {
+    ...payment,
+    description,
+    chainName: resolvedChain?.name || messages.unknownChain,
+    testnet,
+    showBalances,
+    showDiagnostics,
+    contentRenderers: props.contentRenderers,
+  };
+  const {
+    Header,
+    Price,
+    Diagnostics,
+    Options,
+    Connectors,
+    Connected,
+    Balances,
+    Authorize,
+    Processing,
+    Success,
+    Error: ErrorSection,
+  } = components;
+
+  return (
+    <PaywallFrame theme={theme} messages={messages} className={className}>
+      <Header {...section} />
+      <Price {...section} />
+
+      {!payment.hasRequirements && (
+        <div className="x402-paywall__alert">
+          <strong>{messages.missingConfigTitle}</strong>
+          <span>{messages.missingConfigBody}</span>
+        </div>
+      )}
+
+      {showDiagnostics && payment.validationIssues.length > 0 && <Diagnostics {...section} />}
+
+      {payment.requirementOptions.length > 1 &&
+        (status === 'connect' || status === 'connected') && <Options {...section} />}
+
+      {status === 'connect' && (
+        <div className="x402-paywall__section">
+          <Connectors {...section} />
+        </div>
+      )}
+
+      {status === 'connected' && (
+        <div className="x402-paywall__section">
+          <Connected {...section} />
+          {showBalances && <Balances {...section} />}
+          <Authorize {...section} />
+        </div>
+      )}
+
+      {status === 'processing' && (
+        <div className="x402-paywall__section x402-paywall__section--center">
+          <Processing {...section} />
+        </div>
+      )}
+
+      {status === 'success' && (
+        <div className="x402-paywall__section">
+          <Success {...section} />
+        </div>
+      )}
+
+      {status === 'error' && (
+        <div className="x402-paywall__section">
+          <ErrorSection {...section} />
+        </div>
+      )}
+    </PaywallFrame>
+  );
+}
+
+function ResourcePaywall(props: X402PaywallBaseProps & { resourceUrl: string }) {
+  const {
+    resourceUrl,
+    requestInit,
+    resourceDescription,
+    theme = DEFAULT_THEME,
+    className,
+    locale,
+    onSuccess,
+    onError,
+  } = props;
+  const messages = useMemo(
+    () => resolveMessages(locale, props.messages),
+    [locale, props.messages],
+  );
+  const resource = usePaymentRequired({
+    resourceUrl,
+    requestInit,
+    messages,
+    onSuccess,
+    onError,
+  });
+
+  if (resource.status === 'payment-required' && resource.paymentRequired) {
+    return (
+      <PaywallCheckout
+        {...props}
+        paymentRequired={resource.paymentRequired}
+        currentUrl={resourceUrl}
+      />
+    );
+  }
+
+  return (
+    <PaywallFrame theme={theme} messages={messages} className={className}>
+      <div className="x402-paywall__header">
+        <h1>{messages.title}</h1>
+        <p>{resourceDescription?.trim() || messages.defaultDescription}</p>
+      </div>
+
+      {resource.status === 'loading' && (
+        <div className="x402-paywall__section x402-paywall__section--center">
+          <div className="x402-paywall__spinner" />
+          <p className="x402-paywall__processing">{messages.loadingPaymentDetails}</p>
+        </div>
+      )}
+
+      {resource.status === 'unlocked' && (
+        <div className="x402-paywall__section">
+          <div className="x402-paywall__success">
+            <div className="x402-paywall__success-icon">✓</div>
+            <div>
+              <h2>{messages.alreadyUnlocked}</h2>
+              <p>{messages.accessGranted}</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {resource.status === 'error' && (
+        <div className="x402-paywall__section">
+          <div className="x402-paywall__alert x402-paywall__alert--error">
+            <strong>{messages.loadFailedTitle}</strong>
+            <span>{resource.errorMessage}</span>
+          </div>
+          <button
+            type="button"
+            className="x402-paywall__button x402-paywall__button--ghost"
+            onClick={resource.reload}
+          >
+            {messages.tryAgain}
+          </button>
+        </div>
+      )}
+    </PaywallFrame>
+  );
+}
+
+export function X402Paywall(props: X402PaywallProps) {
+  if (props.resourceUrl !== undefined) {
+    return <ResourcePaywall {...props} resourceUrl={props.resourceUrl} />;
+  }
+  return <PaywallCheckout {...props} />;
+}
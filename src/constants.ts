@@ -16,6 +16,13 @@ export const DEFAULT_THEME: ThemeConfig = {
 
 export const X402_PROTOCOL_URL = 'https://x402.org';
 
+// Validity window of a signed authorization when a requirement has no `maxTimeoutSeconds`.
+export const DEFAULT_TIMEOUT_SECONDS = 3600;
+
+export const PAYMENT_REQUIRED_HEADERS = ['PAYMENT', 'X-PAYMENT'] as const;
+export const PAYMENT_SIGNATURE_HEADERS = ['PAYMENT-SIGNATURE', 'X-PAYMENT-SIGNATURE'] as const;
+export const PAYMENT_RESPONSE_HEADERS = ['PAYMENT-RESPONSE', 'X-PAYMENT-RESPONSE'] as const;
+
 export const DEFAULT_CHAIN_CONFIGS: Record<string, ChainConfig> = {
   'eip155:8453': {
     chainId: 8453,
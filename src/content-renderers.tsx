@@ -0,0 +1,497 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import type { X402Messages, X402PaymentRequirement } from './types';
+import { formatMessage } from './messages';
+
+export interface X402PaidContent {
+  response: Response;
+  mimeType: string;
+}
+
+export interface X402ContentRendererProps extends X402PaidContent {
+  requirement: X402PaymentRequirement | null;
+  messages: X402Messages;
+}
+
+export interface X402ContentRenderer {
+  id: string;
+  supports: (mimeType: string) => boolean;
+  component: (props: X402ContentRendererProps) => React.ReactNode;
+}
+
+export interface X402ContentRegistry {
+  register: (renderer: X402ContentRenderer) => void;
+  resolve: (mimeType: string) => X402ContentRenderer | undefined;
+  renderers: () => readonly X402ContentRenderer[];
+}
+
+const DEFAULT_MIME_TYPE = 'application/octet-stream';
+const PDF_MIME_TYPE = 'application/pdf';
+
+export function getContentMimeType(
+  requirement: X402PaymentRequirement | null | undefined,
+  response: Response,
+): string {
+  const mimeType = requirement?.mimeType || response.headers.get('Content-Type') || '';
+  return mimeType.split(';')[0].trim().toLowerCase() || DEFAULT_MIME_TYPE;
+}
+
+export function isEventStream(mimeType: string): boolean {
+  return mimeType === 'text/event-stream';
+}
+
+// Bodies can only be read once, so reads are shared across re-mounts (e.g. React StrictMode).
+const textReads = new WeakMap<Response, Promise<string>>();
+const blobReads = new WeakMap<Response, Promise<Blob>>();
+
+function readText(response: Response): Promise<string> {
+  let read = textReads.get(response);
+  if (!read) {
+    read = response.text();
+    textReads.set(response, read);
+  }
+  return read;
+}
+
+function readBlob(response: Response): Promise<Blob> {
+  let read = blobReads.get(response);
+  if (!read) {
+    read = response.blob();
+    blobReads.set(response, read);
+  }
+  return read;
+}
+
+function useResponseText(response: Response) {
+  const [state, setState] = useState<{ text: string | null; failed: boolean }>({
+    text: null,
+    failed: false,
+  });
+  useEffect(() => {
+    let cancelled = false;
+    readText(response).then(
+      (text) => !cancelled && setState({ text, failed: false }),
+      () => !cancelled && setState({ text: null, failed: true }),
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [response]);
+  return state;
+}
+
+// `type` overrides the blob's own type, which otherwise comes from the server's Content-Type.
+function useBlobUrl(response: Response, type?: string) {
+  const [state, setState] = useState<{ url: string | null; size: number; failed: boolean }>({
+    url: null,
+    size: 0,
+    failed: false,
+  });
+  useEffect(() => {
+    let cancelled = false;
+    let url: string | null = null;
+    readBlob(response).then(
+      (blob) => {
+        if (cancelled) return;
+        url = URL.createObjectURL(type ? new Blob([blob], { type }) : blob);
+        setState({ url, size: blob.size, failed: false });
+      },
+      () => !cancelled && setState({ url: null, size: 0, failed: true }),
+    );
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [response, type]);
+  return state;
+}
+
+function ContentStatus(props: { failed: boolean; messages: X402Messages }) {
+  return (
+    <p className="x402-paywall__subtext">
+      {props.failed ? props.messages.contentFailed : props.messages.contentLoading}
+    </p>
+  );
+}
+
+function JsonContent({ response, messages }: X402ContentRendererProps) {
+  const { text, failed } = useResponseText(response);
+  if (text === null) return <ContentStatus failed={failed} messages={messages} />;
+  let formatted = text;
+  try {
+    formatted = JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    // Show the body as-is when it is not valid JSON.
+  }
+  return <pre className="x402-paywall__content-pre">{formatted}</pre>;
+}
+
+function TextContent({ response, messages }: X402ContentRendererProps) {
+  const { text, failed } = useResponseText(response);
+  if (text === null) return <ContentStatus failed={failed} messages={messages} />;
+  return <pre className="x402-paywall__content-pre">{text}</pre>;
+}
+
+const SAFE_LINK = /^(https?:|mailto:|\/|#|\.)/i;
+const INLINE_PATTERN = /(`[^`]+`)|(\*\*[^*]+\*\*)|(\*[^*]+\*|_[^_]+_)|(\[[^\]]+\]\([^)\s]+\))/g;
+
+function renderInline(text: string): React.ReactNode[] {
+  const nodes: React.ReactNode[] = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const [token] = match;
+    const index = match.index ?? 0;
+    if (index > lastIndex) nodes.push(text.slice(lastIndex, index));
+    const key = nodes.length;
+    if (match[1]) {
+      nodes.push(<code key={key}>{token.slice(1, -1)}</code>);
+    } else if (match[2]) {
+      nodes.push(<strong key={key}>{renderInline(token.slice(2, -2))}</strong>);
+    } else if (match[3]) {
+      nodes.push(<em key={key}>{renderInline(token.slice(1, -1))}</em>);
+    } else {
+      const [, label, href] = token.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/) ?? [];
+      nodes.push(
+        href && SAFE_LINK.test(href) ? (
+          <a key={key} href={href} target="_blank" rel="noreferrer">
+            {renderInline(label)}
+          </a>
+        ) : (
+          label
+        ),
+      );
+    }
+    lastIndex = index + token.length;
+  }
+  if (lastIndex < text.length) nodes.push(text.slice(lastIndex));
+  return nodes;
+}
+
+// A small, dependency-free subset: headings, lists, quotes, code blocks and inline marks.
+function renderMarkdown(markdown: string): React.ReactNode[] {
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+  const blocks: React.ReactNode[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+    const key = blocks.length;
+
+    if (line.startsWith('```')) {
+      const code: string[] = [];
+      index += 1;
+      while (index < lines.length && !lines[index].startsWith('```')) {
+        code.push(lines[index]);
+        index += 1;
+      }
+      index += 1;
+      blocks.push(
+        <pre key={key}>
+          <code>{code.join('\n')}</code>
+        </pre>,
+      );
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      const Tag = `h${heading[1].length}` as 'h1';
+      blocks.push(<Tag key={key}>{renderInline(heading[2])}</Tag>);
+      index += 1;
+      continue;
+    }
+
+    const listPattern = /^\s*(?:[-*+]|\d+\.)\s+/;
+    if (listPattern.test(line)) {
+      const ordered = /^\s*\d+\./.test(line);
+      const items: string[] = [];
+      while (index < lines.length && listPattern.test(lines[index])) {
+        items.push(lines[index].replace(listPattern, ''));
+        index += 1;
+      }
+      const List = ordered ? 'ol' : 'ul';
+      blocks.push(
+        <List key={key}>
+          {items.map((item, itemIndex) => (
+            <li key={itemIndex}>{renderInline(item)}</li>
+          ))}
+        </List>,
+      );
+      continue;
+    }
+
+    if (line.startsWith('>')) {
+      const quote: string[] = [];
+      while (index < lines.length && lines[index].startsWith('>')) {
+        quote.push(lines[index].replace(/^>\s?/, ''));
+        index += 1;
+      }
+      blocks.push(<blockquote key={key}>{renderInline(quote.join(' '))}</blockquote>);
+      continue;
+    }
+
+    if (!line.trim()) {
+      index += 1;
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (
+      index < lines.length &&
+      lines[index].trim() &&
+      !/^(```|#{1,6}\s|>)/.test(lines[index]) &&
+      !listPattern.test(lines[index])
+    ) {
+      paragraph.push(lines[index]);
+      index += 1;
+    }
+    blocks.push(<p key={key}>{renderInline(paragraph.join(' '))}</p>);
+  }
+
+  return blocks;
+}
+
+function MarkdownContent({ response, messages }: X402ContentRendererProps) {
+  const { text, failed } = useResponseText(response);
+  if (text === null) return <ContentStatus failed={failed} messages={messages} />;
+  return <div className="x402-paywall__content-markdown">{renderMarkdown(text)}</div>;
+}
+
+function ImageContent({ response, requirement, messages }: X402ContentRendererProps) {
+  const { url, failed } = useBlobUrl(response);
+  if (!url) return <ContentStatus failed={failed} messages={messages} />;
+  return (
+    <img
+      className="x402-paywall__content-image"
+      src={url}
+      alt={requirement?.description || messages.contentTitle}
+    />
+  );
+}
+
+function PdfFrame({ response, messages }: X402ContentRendererProps) {
+  const { url, failed } = useBlobUrl(response, PDF_MIME_TYPE);
+  if (!url) return <ContentStatus failed={failed} messages={messages} />;
+  return <iframe className="x402-paywall__content-frame" src={url} title={messages.contentTitle} />;
+}
+
+// The frame shares the app's origin, so a body that is not a PDF (e.g. HTML behind a
+// requirement that claims `application/pdf`) is offered as a download instead.
+function PdfContent(props: X402ContentRendererProps) {
+  const { response } = props;
+  const isPdf =
+    !response.headers.get('Content-Type') ||
+    getContentMimeType(null, response) === PDF_MIME_TYPE;
+  return isPdf ? <PdfFrame {...props} /> : <DownloadContent {...props} />;
+}
+
+function getFileName(response: Response, requirement: X402PaymentRequirement | null): string {
+  const disposition = response.headers.get('Content-Disposition') ?? '';
+  const match = disposition.match(/filename\*?=(?:UTF-8'')?"?([^";]+)"?/i);
+  if (match) {
+    try {
+      return decodeURIComponent(match[1]);
+    } catch {
+      return match[1];
+    }
+  }
+  const source = requirement?.resource || response.url;
+  const name = source.split(/[?#]/)[0].split('/').filter(Boolean).pop();
+  return name || 'download';
+}
+
+function DownloadContent({ response, requirement, messages }: X402ContentRendererProps) {
+  const { url, failed } = useBlobUrl(response);
+  if (!url) return <ContentStatus failed={failed} messages={messages} />;
+  const fileName = getFileName(response, requirement);
+  return (
+    <a
+      className="x402-paywall__button x402-paywall__button--ghost"
+      href={url}
+      download={fileName}
+    >
+      {formatMessage(messages.downloadFile, { name: fileName })}
+    </a>
+  );
+}
+
+type EventStreamState = {
+  events: string[];
+  done: boolean;
+  failed: boolean;
+  listeners: Set<() => void>;
+  cancel: () => void;
+};
+
+const eventStreams = new WeakMap<Response, EventStreamState>();
+
+function openEventStream(response: Response): EventStreamState {
+  const existing = eventStreams.get(response);
+  if (existing) return existing;
+
+  const reader = response.body?.getReader();
+  const state: EventStreamState = {
+    events: [],
+    done: !reader,
+    failed: false,
+    listeners: new Set(),
+    cancel: () => {
+      void reader?.cancel().catch(() => undefined);
+    },
+  };
+  eventStreams.set(response, state);
+  if (!reader) return state;
+
+  const notify = () => state.listeners.forEach((listener) => listener());
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const flush = (chunk: string) => {
+    const data = chunk
+      .split('\n')
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => line.slice(5).replace(/^ /, ''));
+    if (data.length > 0) state.events = [...state.events, data.join('\n')];
+  };
+
+  const pump = (): Promise<void> =>
+    reader.read().then(({ done, value }) => {
+      if (done) {
+        flush(buffer);
+        state.done = true;
+        notify();
+        return;
+      }
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+      const chunks = buffer.split('\n\n');
+      buffer = chunks.pop() ?? '';
+      chunks.forEach(flush);
+      notify();
+      return pump();
+    });
+
+  pump().catch(() => {
+    state.failed = true;
+    state.done = true;
+    notify();
+  });
+  return state;
+}
+
+function EventStreamContent({ response, messages }: X402ContentRendererProps) {
+  const [snapshot, setSnapshot] = useState<{ events: string[]; failed: boolean }>({
+    events: [],
+    failed: false,
+  });
+
+  useEffect(() => {
+    const stream = openEventStream(response);
+    const listener = () => setSnapshot({ events: stream.events, failed: stream.failed });
+    stream.listeners.add(listener);
+    listener();
+    return () => {
+      stream.listeners.delete(listener);
+      // Deferred so a StrictMode re-mount can resubscribe before the stream is cancelled.
+      setTimeout(() => {
+        if (stream.listeners.size === 0 && !stream.done) stream.cancel();
+      }, 0);
+    };
+  }, [response]);
+
+  if (snapshot.events.length === 0) {
+    return <ContentStatus failed={snapshot.failed} messages={messages} />;
+  }
+  return (
+    <pre className="x402-paywall__content-pre" aria-live="polite">
+      {snapshot.events.join('\n')}
+    </pre>
+  );
+}
+
+export const jsonContentRenderer: X402ContentRenderer = {
+  id: 'json',
+  supports: (mimeType) => mimeType === 'application/json' || mimeType.endsWith('+json'),
+  component: JsonContent,
+};
+
+export const markdownContentRenderer: X402ContentRenderer = {
+  id: 'markdown',
+  supports: (mimeType) => mimeType === 'text/markdown' || mimeType === 'text/x-markdown',
+  component: MarkdownContent,
+};
+
+export const eventStreamContentRenderer: X402ContentRenderer = {
+  id: 'event-stream',
+  supports: isEventStream,
+  component: EventStreamContent,
+};
+
+// HTML is shown as source rather than injected into the page.
+export const textContentRenderer: X402ContentRenderer = {
+  id: 'text',
+  supports: (mimeType) => mimeType.startsWith('text/'),
+  component: TextContent,
+};
+
+export const imageContentRenderer: X402ContentRenderer = {
+  id: 'image',
+  supports: (mimeType) => mimeType.startsWith('image/'),
+  component: ImageContent,
+};
+
+export const pdfContentRenderer: X402ContentRenderer = {
+  id: 'pdf',
+  supports: (mimeType) => mimeType === PDF_MIME_TYPE,
+  component: PdfContent,
+};
+
+export const downloadContentRenderer: X402ContentRenderer = {
+  id: 'download',
+  supports: () => true,
+  component: DownloadContent,
+};
+
+export const DEFAULT_CONTENT_RENDERERS: readonly X402ContentRenderer[] = [
+  jsonContentRenderer,
+  markdownContentRenderer,
+  eventStreamContentRenderer,
+  textContentRenderer,
+  imageContentRenderer,
+  pdfContentRenderer,
+  downloadContentRenderer,
+];
+
+export function createContentRegistry(
+  renderers: readonly X402ContentRenderer[] = DEFAULT_CONTENT_RENDERERS,
+): X402ContentRegistry {
+  let registered = [...renderers];
+
+  return {
+    register(renderer) {
+      registered = [renderer, ...registered.filter((entry) => entry.id !== renderer.id)];
+    },
+    resolve(mimeType) {
+      return registered.find((renderer) => renderer.supports(mimeType));
+    },
+    renderers() {
+      return registered;
+    },
+  };
+}
+
+export const defaultContentRegistry = createContentRegistry();
+
+export function X402Content(
+  props: X402ContentRendererProps & { registry?: X402ContentRegistry },
+) {
+  const { registry = defaultContentRegistry, ...content } = props;
+  const renderer = registry.resolve(content.mimeType);
+  if (!renderer) return null;
+  const Renderer = renderer.component;
+  return (
+    <div className="x402-paywall__content">
+      <Renderer {...content} />
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import type {
+  X402Entitlement,
+  X402EntitlementStore,
+  X402SettlementResponse,
+} from './types';
+
+export const DEFAULT_ENTITLEMENT_TTL_SECONDS = 3600;
+export const ENTITLEMENT_STORAGE_PREFIX = 'x402:entitlement:';
+
+// Entitlements are keyed by URL and payer only, so requests with a method or body that changes
+// the result must never be answered from the cache.
+export function isEntitlementMethod(method?: string): boolean {
+  const normalized = (method ?? 'GET').toUpperCase();
+  return normalized === 'GET' || normalized === 'HEAD';
+}
+
+export function isEntitlementContentType(contentType: string | null | undefined): boolean {
+  if (!contentType) return true;
+  const mimeType = contentType.split(';')[0].trim().toLowerCase();
+  return mimeType.startsWith('text/') || mimeType.endsWith('json') || mimeType.endsWith('xml');
+}
+
+export function getEntitlementKey(resourceUrl: string, payer: string): string {
+  return `${resourceUrl}::${payer.toLowerCase()}`;
+}
+
+export function createMemoryEntitlementStore(): X402EntitlementStore {
+  const entries = new Map<string, X402Entitlement>();
+  return {
+    get: (key) => entries.get(key) ?? null,
+    set: (key, entitlement) => {
+      entries.set(key, entitlement);
+    },
+    delete: (key) => {
+      entries.delete(key);
+    },
+  };
+}
+
+export function createWebStorageEntitlementStore(
+  getStorage: () => Storage | undefined,
+  prefix = ENTITLEMENT_STORAGE_PREFIX,
+): X402EntitlementStore {
+  // Storage access throws in sandboxed iframes and some private modes.
+  const storage = () => {
+    try {
+      return getStorage();
+    } catch {
+      return undefined;
+    }
+  };
+
+  return {
+    get(key) {
+      const raw = storage()?.getItem(prefix + key);
+      if (!raw) return null;
+      try {
+        return JSON.parse(raw) as X402Entitlement;
+      } catch {
+        return null;
+      }
+    },
+    set(key, entitlement) {
+      try {
+        storage()?.setItem(prefix + key, JSON.stringify(entitlement));
+      } catch {
+        // Quota exceeded or non-serializable result; skip caching.
+      }
+    },
+    delete(key) {
+      storage()?.removeItem(prefix + key);
+    },
+  };
+}
+
+export function createLocalStorageEntitlementStore(prefix?: string): X402EntitlementStore {
+  return createWebStorageEntitlementStore(
+    () => (typeof window === 'undefined' ? undefined : window.localStorage),
+    prefix,
+  );
+}
+
+export function createSessionStorageEntitlementStore(prefix?: string): X402EntitlementStore {
+  return createWebStorageEntitlementStore(
+    () => (typeof window === 'undefined' ? undefined : window.sessionStorage),
+    prefix,
+  );
+}
+
+export function getAccessToken(result: unknown): string | null {
+  if (!result || typeof result !== 'object') return null;
+  const token = (result as { accessToken?: unknown }).accessToken;
+  return typeof token === 'string' && token ? token : null;
+}
+
+export function isEntitlementExpired(entitlement: X402Entitlement, now = Date.now()): boolean {
+  return entitlement.expiresAt !== null && entitlement.expiresAt <= now;
+}
+
+export async function readEntitlement(
+  store: X402EntitlementStore,
+  resourceUrl: string,
+  payer: string,
+  now = Date.now(),
+): Promise<X402Entitlement | null> {
+  const key = getEntitlementKey(resourceUrl, payer);
+  const entitlement = await store.get(key);
+  if (!entitlement) return null;
+  if (isEntitlementExpired(entitlement, now)) {
+    await store.delete(key);
+    return null;
+  }
+  return entitlement;
+}
+
+export async function saveEntitlement(
+  store: X402EntitlementStore,
+  params: {
+    resourceUrl: string;
+    payer: string;
+    result: unknown;
+    contentType?: string | null;
+    settlement?: X402SettlementResponse | null;
+    ttlSeconds?: number | null;
+    now?: number;
+  },
+): Promise<X402Entitlement> {
+  const {
+    resourceUrl,
+    payer,
+    result,
+    contentType = null,
+    settlement = null,
+    ttlSeconds = DEFAULT_ENTITLEMENT_TTL_SECONDS,
+    now = Date.now(),
+  } = params;
+
+  const entitlement: X402Entitlement = {
+    resourceUrl,
+    payer,
+    result,
+    contentType,
+    accessToken: getAccessToken(result),
+    settlement,
+    createdAt: now,
+    expiresAt: ttlSeconds === null ? null : now + ttlSeconds * 1000,
+  };
+  await store.set(getEntitlementKey(resourceUrl, payer), entitlement);
+  return entitlement;
+}
+
+export function createEntitlementResponse(entitlement: X402Entitlement): Response {
+  const { contentType } = entitlement;
+  if (typeof entitlement.result === 'string') {
+    return new Response(entitlement.result, {
+      status: 200,
+      headers: contentType ? { 'Content-Type': contentType } : undefined,
+    });
+  }
+  return new Response(JSON.stringify(entitlement.result), {
+    status: 200,
+    headers: { 'Content-Type': contentType || 'application/json' },
+  });
+}
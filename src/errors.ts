@@ -0,0 +1,156 @@
+import type {
+  AssetMetadata,
+  X402PaymentRequirement,
+  X402PaywallErrorCode,
+  X402ValidationIssue,
+} from './types';
+import { formatTokenAmount } from './utils';
+
+export interface X402PaywallErrorOptions {
+  cause?: unknown;
+  requirement?: X402PaymentRequirement | null;
+}
+
+export class X402PaywallError extends Error {
+  readonly code: X402PaywallErrorCode;
+  readonly cause: unknown;
+  readonly requirement: X402PaymentRequirement | null;
+
+  constructor(code: X402PaywallErrorCode, message: string, options: X402PaywallErrorOptions = {}) {
+    super(message);
+    this.name = 'X402PaywallError';
+    this.code = code;
+    this.cause = options.cause;
+    this.requirement = options.requirement ?? null;
+  }
+}
+
+export class X402UserRejectedError extends X402PaywallError {
+  declare readonly code: 'USER_REJECTED';
+
+  constructor(message = 'Request rejected by user', options: X402PaywallErrorOptions = {}) {
+    super('USER_REJECTED', message, options);
+    this.name = 'X402UserRejectedError';
+  }
+}
+
+export class X402ChainSwitchError extends X402PaywallError {
+  declare readonly code: 'CHAIN_SWITCH_FAILED';
+  readonly chainId: number;
+
+  constructor(
+    chain: { chainId: number; name: string },
+    options: X402PaywallErrorOptions & { message?: string } = {},
+  ) {
+    super('CHAIN_SWITCH_FAILED', options.message || `Please switch to ${chain.name} in your wallet.`, options);
+    this.name = 'X402ChainSwitchError';
+    this.chainId = chain.chainId;
+  }
+}
+
+export class X402VerificationError extends X402PaywallError {
+  declare readonly code: 'VERIFICATION_FAILED';
+  readonly status: number;
+  readonly reasons: string[];
+
+  constructor(
+    message: string,
+    options: X402PaywallErrorOptions & { status: number; reasons?: string[] },
+  ) {
+    super('VERIFICATION_FAILED', message, options);
+    this.name = 'X402VerificationError';
+    this.status = options.status;
+    this.reasons = options.reasons ?? [];
+  }
+}
+
+export class X402NetworkError extends X402PaywallError {
+  declare readonly code: 'NETWORK';
+  readonly status: number | null;
+
+  constructor(message: string, options: X402PaywallErrorOptions & { status?: number } = {}) {
+    super('NETWORK', message, options);
+    this.name = 'X402NetworkError';
+    this.status = options.status ?? null;
+  }
+}
+
+export class InsufficientFundsError extends X402PaywallError {
+  declare readonly code: 'INSUFFICIENT_FUNDS';
+  declare readonly requirement: X402PaymentRequirement;
+  readonly required: bigint;
+  readonly balance: bigint;
+  readonly shortfall: bigint;
+
+  constructor(params: {
+    requirement: X402PaymentRequirement;
+    asset: AssetMetadata;
+    required: bigint;
+    balance: bigint;
+  }) {
+    const shortfall = params.required - params.balance;
+    super(
+      'INSUFFICIENT_FUNDS',
+      `Insufficient funds: ${formatTokenAmount(shortfall, params.asset.decimals)} ${
+        params.asset.symbol
+      } more is required.`,
+      { requirement: params.requirement },
+    );
+    this.name = 'InsufficientFundsError';
+    this.required = params.required;
+    this.balance = params.balance;
+    this.shortfall = shortfall;
+  }
+}
+
+export class X402FacilitatorError extends X402PaywallError {
+  declare readonly code: 'FACILITATOR_ERROR';
+  readonly status: number | null;
+  readonly body: unknown;
+
+  constructor(
+    message: string,
+    params: X402PaywallErrorOptions & { status?: number | null; body?: unknown } = {},
+  ) {
+    super('FACILITATOR_ERROR', message, params);
+    this.name = 'X402FacilitatorError';
+    this.status = params.status ?? null;
+    this.body = params.body ?? null;
+  }
+}
+
+export class X402UnsupportedVersionError extends X402PaywallError {
+  declare readonly code: 'UNSUPPORTED_VERSION';
+  readonly version: unknown;
+  readonly supportedVersions: number[];
+
+  constructor(version: unknown, supportedVersions: number[]) {
+    super(
+      'UNSUPPORTED_VERSION',
+      `Unsupported x402 version: ${String(version)}. Supported versions: ${supportedVersions.join(', ')}.`,
+    );
+    this.name = 'X402UnsupportedVersionError';
+    this.version = version;
+    this.supportedVersions = supportedVersions;
+  }
+}
+
+export class X402ValidationError extends X402PaywallError {
+  declare readonly code: 'INVALID_REQUIREMENT';
+  readonly issues: X402ValidationIssue[];
+
+  constructor(issues: X402ValidationIssue[], options: X402PaywallErrorOptions = {}) {
+    const [first] = issues;
+    super(
+      'INVALID_REQUIREMENT',
+      first
+        ? `Invalid payment requirements: ${first.path} ${first.message}${
+            issues.length > 1 ? ` (and ${issues.length - 1} more)` : ''
+          }`
+        : 'Invalid payment requirements.',
+      options,
+    );
+    this.name = 'X402ValidationError';
+    this.issues = issues;
+  }
+}
@@ -1,4 +1,18 @@
 export { X402Paywall } from './Paywall';
+export { useX402Payment, type UseX402PaymentResult } from './use-x402-payment';
+export {
+  X402PaywallProvider,
+  useX402Paywall,
+  type X402PaywallController,
+} from './paywall-provider';
 export * from './types';
 export * from './constants';
 export * from './utils';
+export * from './x402-fetch';
+export * from './errors';
+export * from './payment-schemes';
+export * from './entitlements';
+export * from './x402-versions';
+export * from './validation';
+export * from './messages';
+export * from './content-renderers';
@@ -0,0 +1,343 @@
+import type { X402Messages } from './types';
+
+export const DEFAULT_LOCALE = 'en';
+
+export const enMessages: X402Messages = {
+  secureCheckout: 'Secure x402 checkout',
+  close: 'Close',
+  poweredBy: 'Powered by',
+  appLogoAlt: 'App logo',
+  title: 'Unlock access',
+  defaultDescription: 'Access this resource',
+  unknownChain: 'Unknown chain',
+  testnetChain: '{chain} (Testnet)',
+  missingConfigTitle: 'Missing payment configuration.',
+  missingConfigBody:
+    'Ensure the payment requirement and chain configuration are provided before rendering the paywall.',
+  diagnosticsTitle: 'Payment requirement issues',
+  paymentOptions: 'Payment options',
+  optionBalance: 'Balance {amount}',
+  balanceUnavailable: 'Balance unavailable',
+  noConnectorsTitle: 'No wallet connectors configured.',
+  noConnectorsBody: 'Add connectors in your Wagmi config to continue.',
+  connectConnector: 'Connect {connector}',
+  installConnector: 'Install {connector}',
+  connected: 'Connected',
+  balances: 'Balances',
+  checking: 'Checking...',
+  noBalances: 'No balances available.',
+  unavailable: 'Unavailable',
+  insufficientFundsTitle: 'Insufficient funds',
+  insufficientFundsBody:
+    'You need {amount} more {symbol} on {chain} to complete this payment.',
+  checkAgain: 'Check again',
+  authorize: 'Authorize {amount} {symbol}',
+  authorizeHint: "You'll sign an authorization. No gas fees.",
+  disconnect: 'Disconnect',
+  confirmInWallet: 'Confirm the request in your wallet.',
+  paymentSuccessful: 'Payment successful',
+  accessGranted: 'Access granted.',
+  viewTransaction: 'View transaction {hash}',
+  quoteExpiresIn: 'Price valid for {time}',
+  quoteRefreshing: 'Price expired. Refreshing...',
+  quoteRefreshFailed: 'Could not refresh the price. Please try again.',
+  priceChangedTitle: 'Price updated',
+  priceChangedBody: 'The price changed from {previous} to {current}. Review it before authorizing.',
+  requoteTitle: 'Payment terms updated',
+  requoteBody: 'The server sent new payment terms. Authorize again to continue.',
+  contentTitle: 'Paid content',
+  contentLoading: 'Loading content...',
+  contentFailed: 'Unable to display this content.',
+  downloadFile: 'Download {name}',
+  paymentFailed: 'Payment failed',
+  tryAgain: 'Try again',
+  loadingPaymentDetails: 'Loading payment details...',
+  alreadyUnlocked: 'Already unlocked',
+  loadFailedTitle: 'Unable to load payment details',
+  processing: 'Processing payment...',
+  connecting: 'Connecting {connector}...',
+  checkingNetwork: 'Checking network...',
+  signInWallet: 'Please sign in your wallet...',
+  submittingPayment: 'Submitting payment...',
+  errorGeneric: 'Payment failed. Please try again.',
+  errorMissingChain: 'Missing chain configuration for this payment.',
+  errorConnectFailed: 'Failed to connect wallet',
+  errorConnectionRejected: 'Connection rejected by user',
+  errorTransactionRejected: 'Transaction rejected by user',
+  errorWalletNotConnected: 'Wallet not connected.',
+  errorMissingRequirement: 'Missing payment requirement or chain configuration.',
+  errorMissingFields: 'Payment requirement missing required fields.',
+  errorUnsupportedScheme: 'Unsupported payment scheme: {scheme}',
+  errorSwitchChain: 'Please switch to {chain} in your wallet.',
+  errorServerUnreachable: 'Could not reach the server. Please try again.',
+  errorVerificationFailed: 'Payment verification failed',
+  errorMissingPaymentDetails:
+    'Payment required, but the response did not include payment requirements.',
+  errorLoadFailed: 'Failed to load resource.',
+  errorLoadFailedStatus: 'Failed to load resource (HTTP {status}).',
+  errorQuoteRefreshStatus: 'Expected payment requirements, got HTTP {status}.',
+  errorPaymentCancelled: 'Payment was cancelled.',
+  errorPaywallReplaced: 'Replaced by another paywall.',
+};
+
+export const esMessages: X402Messages = {
+  secureCheckout: 'Pago seguro con x402',
+  close: 'Cerrar',
+  poweredBy: 'Con la tecnología de',
+  appLogoAlt: 'Logotipo de la aplicación',
+  title: 'Desbloquear acceso',
+  defaultDescription: 'Acceder a este recurso',
+  unknownChain: 'Red desconocida',
+  testnetChain: '{chain} (Testnet)',
+  missingConfigTitle: 'Falta la configuración de pago.',
+  missingConfigBody:
+    'Proporciona el requisito de pago y la configuración de la red antes de mostrar el muro de pago.',
+  diagnosticsTitle: 'Problemas en los requisitos de pago',
+  paymentOptions: 'Opciones de pago',
+  optionBalance: 'Saldo {amount}',
+  balanceUnavailable: 'Saldo no disponible',
+  noConnectorsTitle: 'No hay conectores de billetera configurados.',
+  noConnectorsBody: 'Añade conectores en tu configuración de Wagmi para continuar.',
+  connectConnector: 'Conectar {connector}',
+  installConnector: 'Instalar {connector}',
+  connected: 'Conectado',
+  balances: 'Saldos',
+  checking: 'Comprobando...',
+  noBalances: 'No hay saldos disponibles.',
+  unavailable: 'No disponible',
+  insufficientFundsTitle: 'Fondos insuficientes',
+  insufficientFundsBody:
+    'Necesitas {amount} {symbol} más en {chain} para completar este pago.',
+  checkAgain: 'Comprobar de nuevo',
+  authorize: 'Autorizar {amount} {symbol}',
+  authorizeHint: 'Firmarás una autorización. Sin comisiones de gas.',
+  disconnect: 'Desconectar',
+  confirmInWallet: 'Confirma la solicitud en tu billetera.',
+  paymentSuccessful: 'Pago completado',
+  accessGranted: 'Acceso concedido.',
+  viewTransaction: 'Ver transacción {hash}',
+  quoteExpiresIn: 'Precio válido durante {time}',
+  quoteRefreshing: 'El precio ha caducado. Actualizando...',
+  quoteRefreshFailed: 'No se pudo actualizar el precio. Inténtalo de nuevo.',
+  priceChangedTitle: 'Precio actualizado',
+  priceChangedBody: 'El precio ha cambiado de {previous} a {current}. Revísalo antes de autorizar.',
+  requoteTitle: 'Condiciones de pago actualizadas',
+  requoteBody: 'El servidor envió nuevas condiciones de pago. Autoriza de nuevo para continuar.',
+  contentTitle: 'Contenido de pago',
+  contentLoading: 'Cargando el contenido...',
+  contentFailed: 'No se puede mostrar este contenido.',
+  downloadFile: 'Descargar {name}',
+  paymentFailed: 'El pago ha fallado',
+  tryAgain: 'Reintentar',
+  loadingPaymentDetails: 'Cargando los detalles del pago...',
+  alreadyUnlocked: 'Ya desbloqueado',
+  loadFailedTitle: 'No se pudieron cargar los detalles del pago',
+  processing: 'Procesando el pago...',
+  connecting: 'Conectando {connector}...',
+  checkingNetwork: 'Comprobando la red...',
+  signInWallet: 'Firma en tu billetera...',
+  submittingPayment: 'Enviando el pago...',
+  errorGeneric: 'El pago ha fallado. Inténtalo de nuevo.',
+  errorMissingChain: 'Falta la configuración de red para este pago.',
+  errorConnectFailed: 'No se pudo conectar la billetera',
+  errorConnectionRejected: 'El usuario rechazó la conexión',
+  errorTransactionRejected: 'El usuario rechazó la transacción',
+  errorWalletNotConnected: 'Billetera no conectada.',
+  errorMissingRequirement: 'Falta el requisito de pago o la configuración de la red.',
+  errorMissingFields: 'Al requisito de pago le faltan campos obligatorios.',
+  errorUnsupportedScheme: 'Esquema de pago no compatible: {scheme}',
+  errorSwitchChain: 'Cambia a {chain} en tu billetera.',
+  errorServerUnreachable: 'No se pudo contactar con el servidor. Inténtalo de nuevo.',
+  errorVerificationFailed: 'La verificación del pago ha fallado',
+  errorMissingPaymentDetails:
+    'Se requiere un pago, pero la respuesta no incluía los requisitos de pago.',
+  errorLoadFailed: 'No se pudo cargar el recurso.',
+  errorLoadFailedStatus: 'No se pudo cargar el recurso (HTTP {status}).',
+  errorQuoteRefreshStatus: 'Se esperaban requisitos de pago, pero se recibió HTTP {status}.',
+  errorPaymentCancelled: 'El pago fue cancelado.',
+  errorPaywallReplaced: 'Reemplazado por otro muro de pago.',
+};
+
+export const frMessages: X402Messages = {
+  secureCheckout: 'Paiement sécurisé x402',
+  close: 'Fermer',
+  poweredBy: 'Propulsé par',
+  appLogoAlt: "Logo de l'application",
+  title: "Débloquer l'accès",
+  defaultDescription: 'Accéder à cette ressource',
+  unknownChain: 'Réseau inconnu',
+  testnetChain: '{chain} (Testnet)',
+  missingConfigTitle: 'Configuration de paiement manquante.',
+  missingConfigBody:
+    "Fournissez l'exigence de paiement et la configuration du réseau avant d'afficher le paywall.",
+  diagnosticsTitle: "Problèmes dans les exigences de paiement",
+  paymentOptions: 'Options de paiement',
+  optionBalance: 'Solde {amount}',
+  balanceUnavailable: 'Solde indisponible',
+  noConnectorsTitle: 'Aucun connecteur de portefeuille configuré.',
+  noConnectorsBody: 'Ajoutez des connecteurs dans votre configuration Wagmi pour continuer.',
+  connectConnector: 'Connecter {connector}',
+  installConnector: 'Installer {connector}',
+  connected: 'Connecté',
+  balances: 'Soldes',
+  checking: 'Vérification...',
+  noBalances: 'Aucun solde disponible.',
+  unavailable: 'Indisponible',
+  insufficientFundsTitle: 'Fonds insuffisants',
+  insufficientFundsBody:
+    'Il vous manque {amount} {symbol} sur {chain} pour effectuer ce paiement.',
+  checkAgain: 'Vérifier à nouveau',
+  authorize: 'Autoriser {amount} {symbol}',
+  authorizeHint: 'Vous signerez une autorisation. Aucun frais de gas.',
+  disconnect: 'Déconnecter',
+  confirmInWallet: 'Confirmez la demande dans votre portefeuille.',
+  paymentSuccessful: 'Paiement réussi',
+  accessGranted: 'Accès accordé.',
+  viewTransaction: 'Voir la transaction {hash}',
+  quoteExpiresIn: 'Prix valable pendant {time}',
+  quoteRefreshing: 'Le prix a expiré. Actualisation...',
+  quoteRefreshFailed: "Impossible d'actualiser le prix. Veuillez réessayer.",
+  priceChangedTitle: 'Prix mis à jour',
+  priceChangedBody: "Le prix est passé de {previous} à {current}. Vérifiez-le avant d'autoriser.",
+  requoteTitle: 'Conditions de paiement mises à jour',
+  requoteBody: 'Le serveur a envoyé de nouvelles conditions de paiement. Autorisez à nouveau pour continuer.',
+  contentTitle: 'Contenu payant',
+  contentLoading: 'Chargement du contenu...',
+  contentFailed: "Impossible d'afficher ce contenu.",
+  downloadFile: 'Télécharger {name}',
+  paymentFailed: 'Échec du paiement',
+  tryAgain: 'Réessayer',
+  loadingPaymentDetails: 'Chargement des détails du paiement...',
+  alreadyUnlocked: 'Déjà débloqué',
+  loadFailedTitle: 'Impossible de charger les détails du paiement',
+  processing: 'Traitement du paiement...',
+  connecting: 'Connexion à {connector}...',
+  checkingNetwork: 'Vérification du réseau...',
+  signInWallet: 'Veuillez signer dans votre portefeuille...',
+  submittingPayment: 'Envoi du paiement...',
+  errorGeneric: 'Échec du paiement. Veuillez réessayer.',
+  errorMissingChain: 'Configuration du réseau manquante pour ce paiement.',
+  errorConnectFailed: 'Impossible de connecter le portefeuille',
+  errorConnectionRejected: "Connexion refusée par l'utilisateur",
+  errorTransactionRejected: "Transaction refusée par l'utilisateur",
+  errorWalletNotConnected: 'Portefeuille non connecté.',
+  errorMissingRequirement: 'Exigence de paiement ou configuration du réseau manquante.',
+  errorMissingFields: "Des champs obligatoires manquent dans l'exigence de paiement.",
+  errorUnsupportedScheme: 'Schéma de paiement non pris en charge : {scheme}',
+  errorSwitchChain: 'Veuillez passer sur {chain} dans votre portefeuille.',
+  errorServerUnreachable: 'Impossible de joindre le serveur. Veuillez réessayer.',
+  errorVerificationFailed: 'Échec de la vérification du paiement',
+  errorMissingPaymentDetails:
+    "Paiement requis, mais la réponse n'incluait pas les exigences de paiement.",
+  errorLoadFailed: 'Impossible de charger la ressource.',
+  errorLoadFailedStatus: 'Impossible de charger la ressource (HTTP {status}).',
+  errorQuoteRefreshStatus: 'Conditions de paiement attendues, mais HTTP {status} reçu.',
+  errorPaymentCancelled: 'Le paiement a été annulé.',
+  errorPaywallReplaced: 'Remplacé par un autre mur de paiement.',
+};
+
+export const deMessages: X402Messages = {
+  secureCheckout: 'Sicherer x402-Checkout',
+  close: 'Schließen',
+  poweredBy: 'Bereitgestellt von',
+  appLogoAlt: 'App-Logo',
+  title: 'Zugang freischalten',
+  defaultDescription: 'Auf diese Ressource zugreifen',
+  unknownChain: 'Unbekanntes Netzwerk',
+  testnetChain: '{chain} (Testnet)',
+  missingConfigTitle: 'Zahlungskonfiguration fehlt.',
+  missingConfigBody:
+    'Gib die Zahlungsanforderung und die Netzwerkkonfiguration an, bevor die Paywall angezeigt wird.',
+  diagnosticsTitle: 'Probleme mit den Zahlungsanforderungen',
+  paymentOptions: 'Zahlungsoptionen',
+  optionBalance: 'Guthaben {amount}',
+  balanceUnavailable: 'Guthaben nicht verfügbar',
+  noConnectorsTitle: 'Keine Wallet-Connectors konfiguriert.',
+  noConnectorsBody: 'Füge Connectors in deiner Wagmi-Konfiguration hinzu, um fortzufahren.',
+  connectConnector: 'Mit {connector} verbinden',
+  installConnector: '{connector} installieren',
+  connected: 'Verbunden',
+  balances: 'Guthaben',
+  checking: 'Wird geprüft...',
+  noBalances: 'Kein Guthaben verfügbar.',
+  unavailable: 'Nicht verfügbar',
+  insufficientFundsTitle: 'Unzureichendes Guthaben',
+  insufficientFundsBody:
+    'Du benötigst {amount} {symbol} mehr auf {chain}, um diese Zahlung abzuschließen.',
+  checkAgain: 'Erneut prüfen',
+  authorize: '{amount} {symbol} autorisieren',
+  authorizeHint: 'Du signierst eine Autorisierung. Keine Gasgebühren.',
+  disconnect: 'Trennen',
+  confirmInWallet: 'Bestätige die Anfrage in deiner Wallet.',
+  paymentSuccessful: 'Zahlung erfolgreich',
+  accessGranted: 'Zugang gewährt.',
+  viewTransaction: 'Transaktion {hash} ansehen',
+  quoteExpiresIn: 'Preis gültig für {time}',
+  quoteRefreshing: 'Preis abgelaufen. Wird aktualisiert...',
+  quoteRefreshFailed: 'Preis konnte nicht aktualisiert werden. Bitte versuche es erneut.',
+  priceChangedTitle: 'Preis aktualisiert',
+  priceChangedBody: 'Der Preis hat sich von {previous} auf {current} geändert. Bitte vor dem Autorisieren prüfen.',
+  requoteTitle: 'Zahlungsbedingungen aktualisiert',
+  requoteBody: 'Der Server hat neue Zahlungsbedingungen gesendet. Autorisiere erneut, um fortzufahren.',
+  contentTitle: 'Bezahlter Inhalt',
+  contentLoading: 'Inhalt wird geladen...',
+  contentFailed: 'Dieser Inhalt kann nicht angezeigt werden.',
+  downloadFile: '{name} herunterladen',
+  paymentFailed: 'Zahlung fehlgeschlagen',
+  tryAgain: 'Erneut versuchen',
+  loadingPaymentDetails: 'Zahlungsdetails werden geladen...',
+  alreadyUnlocked: 'Bereits freigeschaltet',
+  loadFailedTitle: 'Zahlungsdetails konnten nicht geladen werden',
+  processing: 'Zahlung wird verarbeitet...',
+  connecting: 'Verbinde mit {connector}...',
+  checkingNetwork: 'Netzwerk wird geprüft...',
+  signInWallet: 'Bitte in deiner Wallet signieren...',
+  submittingPayment: 'Zahlung wird übermittelt...',
+  errorGeneric: 'Zahlung fehlgeschlagen. Bitte versuche es erneut.',
+  errorMissingChain: 'Für diese Zahlung fehlt die Netzwerkkonfiguration.',
+  errorConnectFailed: 'Wallet konnte nicht verbunden werden',
+  errorConnectionRejected: 'Verbindung vom Nutzer abgelehnt',
+  errorTransactionRejected: 'Transaktion vom Nutzer abgelehnt',
+  errorWalletNotConnected: 'Wallet nicht verbunden.',
+  errorMissingRequirement: 'Zahlungsanforderung oder Netzwerkkonfiguration fehlt.',
+  errorMissingFields: 'In der Zahlungsanforderung fehlen Pflichtfelder.',
+  errorUnsupportedScheme: 'Nicht unterstütztes Zahlungsschema: {scheme}',
+  errorSwitchChain: 'Bitte wechsle in deiner Wallet zu {chain}.',
+  errorServerUnreachable: 'Server nicht erreichbar. Bitte versuche es erneut.',
+  errorVerificationFailed: 'Zahlungsprüfung fehlgeschlagen',
+  errorMissingPaymentDetails:
+    'Zahlung erforderlich, aber die Antwort enthielt keine Zahlungsanforderungen.',
+  errorLoadFailed: 'Ressource konnte nicht geladen werden.',
+  errorLoadFailedStatus: 'Ressource konnte nicht geladen werden (HTTP {status}).',
+  errorQuoteRefreshStatus: 'Zahlungsanforderungen erwartet, aber HTTP {status} erhalten.',
+  errorPaymentCancelled: 'Die Zahlung wurde abgebrochen.',
+  errorPaywallReplaced: 'Durch eine andere Paywall ersetzt.',
+};
+
+export const X402_LOCALES: Record<string, X402Messages> = {
+  en: enMessages,
+  es: esMessages,
+  fr: frMessages,
+  de: deMessages,
+};
+
+export function resolveMessages(
+  locale?: string,
+  overrides?: Partial<X402Messages>,
+): X402Messages {
+  const language = locale?.toLowerCase().split('-')[0];
+  const base =
+    (locale && X402_LOCALES[locale]) ||
+    (language && X402_LOCALES[language]) ||
+    X402_LOCALES[DEFAULT_LOCALE];
+  return overrides ? { ...base, ...overrides } : base;
+}
+
+export function formatMessage(
+  template: string,
+  values: Record<string, string | number> = {},
+): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in values ? String(values[key]) : match,
+  );
+}
@@ -0,0 +1,459 @@
+import {
+  getAddress,
+  isAddress,
+  parseAbi,
+  toHex,
+  type Abi,
+  type Address,
+  type Hex,
+  type TypedDataDefinition,
+} from 'viem';
+import { X402PaywallError } from './errors';
+import type {
+  X402HeaderFormat,
+  X402PaymentPayload,
+  X402PaymentRequirement,
+  X402TransferAuthorization,
+} from './types';
+import {
+  buildTransferAuthorizationTypedData,
+  CLOCK_SKEW_SECONDS,
+  getRequirementDomain,
+} from './paywall-helpers';
+import { DEFAULT_TIMEOUT_SECONDS } from './constants';
+import { encodeBase64Json } from './utils';
+
+export const PERMIT2_ADDRESS: Address = '0x000000000022D473030F116dDEE9F6B43aC78BA3';
+
+export const PERMIT_ABI = parseAbi([
+  'function nonces(address owner) external view returns (uint256)',
+]);
+
+export const PERMIT_TYPES = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+} as const;
+
+export const PERMIT2_TRANSFER_TYPES = {
+  PermitTransferFrom: [
+    { name: 'permitted', type: 'TokenPermissions' },
+    { name: 'spender', type: 'address' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+  TokenPermissions: [
+    { name: 'token', type: 'address' },
+    { name: 'amount', type: 'uint256' },
+  ],
+} as const;
+
+const UINT_PATTERN = /^\d+$/;
+const BYTES32_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+
+export type X402TypedData = TypedDataDefinition;
+
+export type X402ContractReader = (params: {
+  address: Address;
+  abi: Abi;
+  functionName: string;
+  args?: readonly unknown[];
+  chainId: number;
+}) => Promise<unknown>;
+
+export interface X402SchemeContext {
+  requirement: X402PaymentRequirement;
+  chainId: number;
+  from: Address;
+  value: bigint;
+  now: number;
+  readContract?: X402ContractReader;
+}
+
+export interface X402SchemeAuthorization {
+  typedData: X402TypedData;
+  buildPayload: (signature: Hex) => X402PaymentPayload['payload'];
+}
+
+export interface X402SchemeVerification {
+  typedData: X402TypedData;
+  signature: Hex;
+  authorization: X402TransferAuthorization;
+}
+
+export interface X402SchemeHandler {
+  id: string;
+  scheme: string;
+  headerFormat: X402HeaderFormat;
+  // Signs with the token's EIP-712 domain from `extra.name` and `extra.version`.
+  usesRequirementDomain?: boolean;
+  supports: (requirement: X402PaymentRequirement) => boolean;
+  getRecipient: (requirement: X402PaymentRequirement) => string;
+  createAuthorization: (context: X402SchemeContext) => Promise<X402SchemeAuthorization>;
+  parsePayload: (
+    payload: X402PaymentPayload['payload'],
+    requirement: X402PaymentRequirement,
+    chainId: number,
+  ) => X402SchemeVerification | null;
+}
+
+export interface X402SchemeRegistry {
+  register: (handler: X402SchemeHandler) => void;
+  resolve: (requirement: X402PaymentRequirement) => X402SchemeHandler | undefined;
+  handlers: () => readonly X402SchemeHandler[];
+}
+
+export function getAssetTransferMethod(requirement: X402PaymentRequirement): string {
+  const method = (requirement.extra as { assetTransferMethod?: unknown } | undefined)
+    ?.assetTransferMethod;
+  return typeof method === 'string' ? method.toLowerCase() : 'eip3009';
+}
+
+// Without `extra.spender` the permit is granted to `payTo`, which then has to pull the funds.
+function getSpender(requirement: X402PaymentRequirement): string {
+  const spender = (requirement.extra as { spender?: unknown } | undefined)?.spender;
+  if (spender === undefined) return requirement.payTo;
+  return typeof spender === 'string' ? spender : '';
+}
+
+function requireSpender(requirement: X402PaymentRequirement) {
+  const spender = getSpender(requirement);
+  if (!isAddress(spender)) {
+    throw new X402PaywallError(
+      'INVALID_REQUIREMENT',
+      'Payment requirement has an invalid permit spender.',
+      { requirement },
+    );
+  }
+  return getAddress(spender);
+}
+
+function requireDomain(requirement: X402PaymentRequirement) {
+  const domain = getRequirementDomain(requirement);
+  if (!domain) {
+    throw new X402PaywallError(
+      'INVALID_REQUIREMENT',
+      'Payment requirement missing EIP-712 domain details.',
+      { requirement },
+    );
+  }
+  return domain;
+}
+
+function getDeadline(context: X402SchemeContext): bigint {
+  const maxTimeoutSeconds =
+    context.requirement.maxTimeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS;
+  return BigInt(context.now + maxTimeoutSeconds);
+}
+
+export const exactEip3009Scheme: X402SchemeHandler = {
+  id: 'exact-eip3009',
+  scheme: 'exact',
+  headerFormat: 'base64-json',
+  usesRequirementDomain: true,
+  supports: (requirement) =>
+    requirement.scheme === 'exact' && getAssetTransferMethod(requirement) === 'eip3009',
+  getRecipient: (requirement) => requirement.payTo,
+  async createAuthorization(context) {
+    const { requirement, chainId, from, value, now } = context;
+    const domain = requireDomain(requirement);
+    const to = getAddress(requirement.payTo);
+    const validAfter = BigInt(now - CLOCK_SKEW_SECONDS);
+    const validBefore = getDeadline(context);
+    const nonce = toHex(crypto.getRandomValues(new Uint8Array(32)));
+
+    const typedData = buildTransferAuthorizationTypedData({
+      domain: {
+        name: domain.name,
+        version: domain.version,
+        chainId,
+        verifyingContract: getAddress(requirement.asset),
+      },
+      message: { from, to, value, validAfter, validBefore, nonce },
+    });
+
+    return {
+      typedData,
+      buildPayload: (signature) => ({
+        signature,
+        authorization: {
+          from,
+          to,
+          value: value.toString(),
+          validAfter: validAfter.toString(),
+          validBefore: validBefore.toString(),
+          nonce,
+        },
+      }),
+    };
+  },
+  parsePayload(payload, requirement, chainId) {
+    const authorization = payload.authorization;
+    const domain = getRequirementDomain(requirement);
+    if (!authorization || !domain || !isAddress(requirement.asset)) return null;
+    if (
+      !isAddress(authorization.from) ||
+      !isAddress(authorization.to) ||
+      !UINT_PATTERN.test(authorization.value) ||
+      !UINT_PATTERN.test(authorization.validAfter) ||
+      !UINT_PATTERN.test(authorization.validBefore) ||
+      !BYTES32_PATTERN.test(authorization.nonce)
+    ) {
+      return null;
+    }
+
+    return {
+      signature: payload.signature as Hex,
+      authorization,
+      typedData: buildTransferAuthorizationTypedData({
+        domain: {
+          name: domain.name,
+          version: domain.version,
+          chainId,
+          verifyingContract: getAddress(requirement.asset),
+        },
+        message: {
+          from: getAddress(authorization.from),
+          to: getAddress(authorization.to),
+          value: BigInt(authorization.value),
+          validAfter: BigInt(authorization.validAfter),
+          validBefore: BigInt(authorization.validBefore),
+          nonce: authorization.nonce as Hex,
+        },
+      }),
+    };
+  },
+};
+
+export const eip2612PermitScheme: X402SchemeHandler = {
+  id: 'exact-eip2612',
+  scheme: 'exact',
+  headerFormat: 'base64-json',
+  usesRequirementDomain: true,
+  supports: (requirement) =>
+    requirement.scheme === 'exact' && getAssetTransferMethod(requirement) === 'eip2612',
+  getRecipient: getSpender,
+  async createAuthorization(context) {
+    const { requirement, chainId, from, value, readContract } = context;
+    const domain = requireDomain(requirement);
+    if (!readContract) {
+      throw new X402PaywallError(
+        'INVALID_REQUIREMENT',
+        'EIP-2612 permits require a contract reader to fetch the token nonce.',
+        { requirement },
+      );
+    }
+    const asset = getAddress(requirement.asset);
+    const spender = requireSpender(requirement);
+    const deadline = getDeadline(context);
+    const nonce = await readContract({
+      address: asset,
+      abi: PERMIT_ABI,
+      functionName: 'nonces',
+      args: [from],
+      chainId,
+    });
+    if (typeof nonce !== 'bigint') {
+      throw new X402PaywallError(
+        'INVALID_REQUIREMENT',
+        'The token did not return an EIP-2612 permit nonce.',
+        { requirement },
+      );
+    }
+
+    const typedData = {
+      domain: { name: domain.name, version: domain.version, chainId, verifyingContract: asset },
+      types: PERMIT_TYPES,
+      primaryType: 'Permit',
+      message: { owner: from, spender, value, nonce, deadline },
+    } as const;
+
+    return {
+      typedData,
+      buildPayload: (signature) => ({
+        signature,
+        permit: {
+          owner: from,
+          spender,
+          value: value.toString(),
+          nonce: nonce.toString(),
+          deadline: deadline.toString(),
+        },
+      }),
+    };
+  },
+  parsePayload(payload, requirement, chainId) {
+    const permit = payload.permit as
+      | { owner?: string; spender?: string; value?: string; nonce?: string; deadline?: string }
+      | undefined;
+    const domain = getRequirementDomain(requirement);
+    if (!permit || !domain || !isAddress(requirement.asset)) return null;
+    const { owner, spender, value, nonce, deadline } = permit;
+    if (
+      !owner ||
+      !spender ||
+      !isAddress(owner) ||
+      !isAddress(spender) ||
+      !value ||
+      !UINT_PATTERN.test(value) ||
+      !nonce ||
+      !UINT_PATTERN.test(nonce) ||
+      !deadline ||
+      !UINT_PATTERN.test(deadline)
+    ) {
+      return null;
+    }
+
+    return {
+      signature: payload.signature as Hex,
+      authorization: { from: owner, to: spender, value, validAfter: '0', validBefore: deadline, nonce },
+      typedData: {
+        domain: {
+          name: domain.name,
+          version: domain.version,
+          chainId,
+          verifyingContract: getAddress(requirement.asset),
+        },
+        types: PERMIT_TYPES,
+        primaryType: 'Permit',
+        message: {
+          owner: getAddress(owner),
+          spender: getAddress(spender),
+          value: BigInt(value),
+          nonce: BigInt(nonce),
+          deadline: BigInt(deadline),
+        },
+      },
+    };
+  },
+};
+
+export const permit2Scheme: X402SchemeHandler = {
+  id: 'exact-permit2',
+  scheme: 'exact',
+  headerFormat: 'base64-json',
+  supports: (requirement) =>
+    requirement.scheme === 'exact' && getAssetTransferMethod(requirement) === 'permit2',
+  getRecipient: getSpender,
+  async createAuthorization(context) {
+    const { requirement, chainId, from, value } = context;
+    const token = getAddress(requirement.asset);
+    const spender = requireSpender(requirement);
+    const deadline = getDeadline(context);
+    const nonce = BigInt(toHex(crypto.getRandomValues(new Uint8Array(32))));
+
+    const typedData = {
+      domain: { name: 'Permit2', chainId, verifyingContract: PERMIT2_ADDRESS },
+      types: PERMIT2_TRANSFER_TYPES,
+      primaryType: 'PermitTransferFrom',
+      message: { permitted: { token, amount: value }, spender, nonce, deadline },
+    } as const;
+
+    return {
+      typedData,
+      buildPayload: (signature) => ({
+        signature,
+        permit2: {
+          owner: from,
+          spender,
+          token,
+          amount: value.toString(),
+          nonce: nonce.toString(),
+          deadline: deadline.toString(),
+        },
+      }),
+    };
+  },
+  parsePayload(payload, requirement, chainId) {
+    const permit = payload.permit2 as
+      | {
+          owner?: string;
+          spender?: string;
+          token?: string;
+          amount?: string;
+          nonce?: string;
+          deadline?: string;
+        }
+      | undefined;
+    if (!permit) return null;
+    const { owner, spender, token, amount, nonce, deadline } = permit;
+    if (
+      !owner ||
+      !spender ||
+      !token ||
+      !isAddress(owner) ||
+      !isAddress(spender) ||
+      !isAddress(token) ||
+      !isAddress(requirement.asset) ||
+      getAddress(token) !== getAddress(requirement.asset) ||
+      !amount ||
+      !UINT_PATTERN.test(amount) ||
+      !nonce ||
+      !UINT_PATTERN.test(nonce) ||
+      !deadline ||
+      !UINT_PATTERN.test(deadline)
+    ) {
+      return null;
+    }
+
+    return {
+      signature: payload.signature as Hex,
+      authorization: {
+        from: owner,
+        to: spender,
+        value: amount,
+        validAfter: '0',
+        validBefore: deadline,
+        nonce,
+      },
+      typedData: {
+        domain: { name: 'Permit2', chainId, verifyingContract: PERMIT2_ADDRESS },
+        types: PERMIT2_TRANSFER_TYPES,
+        primaryType: 'PermitTransferFrom',
+        message: {
+          permitted: { token: getAddress(token), amount: BigInt(amount) },
+          spender: getAddress(spender),
+          nonce: BigInt(nonce),
+          deadline: BigInt(deadline),
+        },
+      },
+    };
+  },
+};
+
+export const DEFAULT_SCHEME_HANDLERS: readonly X402SchemeHandler[] = [
+  exactEip3009Scheme,
+  eip2612PermitScheme,
+  permit2Scheme,
+];
+
+export function createSchemeRegistry(
+  handlers: readonly X402SchemeHandler[] = DEFAULT_SCHEME_HANDLERS,
+): X402SchemeRegistry {
+  let registered = [...handlers];
+
+  return {
+    register(handler) {
+      registered = [handler, ...registered.filter((entry) => entry.id !== handler.id)];
+    },
+    resolve(requirement) {
+      return registered.find((handler) => handler.supports(requirement));
+    },
+    handlers() {
+      return registered;
+    },
+  };
+}
+
+export const defaultSchemeRegistry = createSchemeRegistry();
+
+export function encodePaymentHeader(
+  payment: X402PaymentPayload,
+  format: X402HeaderFormat,
+): string {
+  return format === 'json' ? JSON.stringify(payment) : encodeBase64Json(payment);
+}
@@ -1,5 +1,4 @@
 import {
-  formatUnits,
   getAddress,
   parseAbi,
   parseUnits,
@@ -8,18 +7,35 @@ import {
   type Address,
   type Hex,
 } from 'viem';
+import { ConnectorAlreadyConnectedError } from 'wagmi';
 import { DEFAULT_CHAIN_CONFIGS } from './constants';
-import type { BalanceInfo, ChainConfig, X402PaymentRequirement } from './types';
-import { formatAmount, parseNetworkChainId } from './utils';
+import {
+  X402NetworkError,
+  X402PaywallError,
+  X402UserRejectedError,
+  type X402PaywallErrorOptions,
+} from './errors';
+import type {
+  AssetMetadata,
+  BalanceInfo,
+  ChainConfig,
+  FundsCheck,
+  X402PaymentRequirement,
+  X402PaywallErrorCode,
+  X402SettlementResponse,
+} from './types';
+import { formatAmount, formatTokenAmount, parseNetworkChainId } from './utils';
 
-export const USDC_ABI = parseAbi([
+export const ERC20_ABI = parseAbi([
   'function balanceOf(address account) external view returns (uint256)',
   'function decimals() external view returns (uint8)',
+  'function symbol() external view returns (string)',
 ]);
 
 export const DEFAULT_PROCESSING_TEXT = 'Processing payment...';
-export const DEFAULT_TIMEOUT_SECONDS = 3600;
 export const CLOCK_SKEW_SECONDS = 600;
+export const DEFAULT_ASSET_DECIMALS = 6;
+export const DEFAULT_ASSET_SYMBOL = 'USDC';
 
 export const TRANSFER_WITH_AUTHORIZATION_TYPES = {
   TransferWithAuthorization: [
@@ -33,9 +49,10 @@ export const TRANSFER_WITH_AUTHORIZATION_TYPES = {
 } as const;
 
 export type BalanceConfigEntry = {
+  index: number;
   accept: X402PaymentRequirement;
   config?: ChainConfig;
-  usdcAddress?: Address;
+  assetAddress?: Address;
   error?: string;
 };
 
@@ -70,20 +87,21 @@ export function buildBalanceConfigs(
   chainConfig?: ChainConfig,
   chainConfigs?: Record<string, ChainConfig>,
 ): BalanceConfigEntry[] {
-  return accepts.map((accept) => {
+  return accepts.map((accept, index) => {
     const config = resolveChain(accept, chainConfig, chainConfigs);
     if (!config) {
       return {
+        index,
         accept,
         config: undefined,
         error: 'Missing chain configuration',
       };
     }
     try {
-      const usdcAddress = getAddress(config.usdcAddress);
-      return { accept, config, usdcAddress };
+      const assetAddress = getAddress(accept.asset);
+      return { index, accept, config, assetAddress };
     } catch {
-      return { accept, config, error: 'Invalid USDC address' };
+      return { index, accept, config, error: 'Invalid asset address' };
     }
   });
 }
@@ -93,47 +111,122 @@ export function getAmountAtomic(requirement?: X402PaymentRequirement): string |
   return requirement.maxAmountRequired ?? null;
 }
 
-export function normalizeAtomicAmount(amount: string | null): string | null {
+export function getAssetDecimals(requirement?: X402PaymentRequirement): number | null {
+  const decimals = (requirement?.extra as { decimals?: unknown } | undefined)?.decimals;
+  const value = typeof decimals === 'string' ? Number(decimals) : decimals;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > 77) {
+    return null;
+  }
+  return value;
+}
+
+export function getAssetSymbol(requirement?: X402PaymentRequirement): string | null {
+  const symbol = (requirement?.extra as { symbol?: unknown } | undefined)?.symbol;
+  return typeof symbol === 'string' && symbol.trim() ? symbol.trim() : null;
+}
+
+export function resolveAssetMetadata(
+  requirement: X402PaymentRequirement | undefined,
+  onchain?: { decimals?: number | null; symbol?: string | null },
+): AssetMetadata {
+  return {
+    decimals: getAssetDecimals(requirement) ?? onchain?.decimals ?? DEFAULT_ASSET_DECIMALS,
+    symbol: getAssetSymbol(requirement) ?? onchain?.symbol ?? DEFAULT_ASSET_SYMBOL,
+  };
+}
+
+export function getRequiredAmount(
+  requirement?: X402PaymentRequirement,
+  decimals = getAssetDecimals(requirement) ?? DEFAULT_ASSET_DECIMALS,
+): bigint | null {
+  const amountAtomic = getAmountAtomic(requirement);
+  if (!amountAtomic) return null;
+  try {
+    return BigInt(normalizeAtomicAmount(amountAtomic, decimals) ?? amountAtomic);
+  } catch {
+    return null;
+  }
+}
+
+export function normalizeAtomicAmount(
+  amount: string | null,
+  decimals = DEFAULT_ASSET_DECIMALS,
+): string | null {
   if (!amount) return null;
   if (!amount.includes('.')) return amount;
 
   const [whole, fraction = ''] = amount.split('.');
-  const trimmedFraction = fraction.slice(0, 6);
+  const trimmedFraction = fraction.slice(0, decimals);
   const normalized = `${whole}.${trimmedFraction}`;
   try {
-    return parseUnits(normalized, 6).toString();
+    return parseUnits(normalized, decimals).toString();
   } catch {
-    const padded = `${trimmedFraction}000000`.slice(0, 6);
+    const padded = trimmedFraction.padEnd(decimals, '0');
     const combined = `${whole}${padded}`.replace(/^0+/, '') || '0';
     return combined;
   }
 }
 
-export function parseAmountDisplay(amountAtomic: string | null): string {
+export function parseAmountDisplay(
+  amountAtomic: string | null,
+  decimals = DEFAULT_ASSET_DECIMALS,
+  locale?: string,
+): string {
   if (!amountAtomic) return '0.00';
   try {
-    const normalized = normalizeAtomicAmount(amountAtomic) ?? amountAtomic;
-    const formatted = formatUnits(BigInt(normalized), 6);
-    return formatAmount(Number.parseFloat(formatted));
+    const normalized = normalizeAtomicAmount(amountAtomic, decimals) ?? amountAtomic;
+    return formatTokenAmount(BigInt(normalized), decimals, locale);
   } catch {
     return '0.00';
   }
 }
 
-export function isUserRejection(error: unknown): boolean {
-  if (!error) return false;
+export function getErrorCode(error: unknown): X402PaywallErrorCode {
+  if (!error) return 'UNKNOWN';
+  if (error instanceof X402PaywallError) return error.code;
   if (
     error instanceof UserRejectedRequestError ||
     error instanceof TransactionRejectedRpcError
   ) {
-    return true;
+    return 'USER_REJECTED';
   }
+  if (error instanceof ConnectorAlreadyConnectedError) return 'ALREADY_CONNECTED';
   const err = error as { code?: number; name?: string; message?: string };
-  if (err.code === 4001) return true;
+  if (err.code === 4001) return 'USER_REJECTED';
   if (err.name === 'UserRejectedRequestError' || err.name === 'TransactionRejectedRpcError') {
-    return true;
+    return 'USER_REJECTED';
   }
-  return Boolean(err.message?.toLowerCase().includes('user rejected'));
+  if (err.name === 'ConnectorAlreadyConnectedError') return 'ALREADY_CONNECTED';
+  const message = err.message?.toLowerCase() ?? '';
+  if (message.includes('user rejected')) return 'USER_REJECTED';
+  if (message.includes('already connected')) return 'ALREADY_CONNECTED';
+  // `fetch` rejects with a TypeError when the request never reaches the server.
+  if (error instanceof TypeError && message.includes('fetch')) return 'NETWORK';
+  return 'UNKNOWN';
+}
+
+export function isUserRejection(error: unknown): boolean {
+  return getErrorCode(error) === 'USER_REJECTED';
+}
+
+export function isAlreadyConnected(error: unknown): boolean {
+  return getErrorCode(error) === 'ALREADY_CONNECTED';
+}
+
+export function toPaywallError(
+  error: unknown,
+  options: { message?: string; requirement?: X402PaymentRequirement | null } = {},
+): X402PaywallError {
+  if (error instanceof X402PaywallError) return error;
+  const code = getErrorCode(error);
+  const message = (error as Error | null)?.message || options.message || 'Payment failed.';
+  const errorOptions: X402PaywallErrorOptions = {
+    cause: error,
+    requirement: options.requirement,
+  };
+  if (code === 'USER_REJECTED') return new X402UserRejectedError(message, errorOptions);
+  if (code === 'NETWORK') return new X402NetworkError(message, errorOptions);
+  return new X402PaywallError(code, message, errorOptions);
 }
 
 export function buildTransferAuthorizationTypedData(params: {
@@ -160,6 +253,33 @@ export function buildTransferAuthorizationTypedData(params: {
   } as const;
 }
 
+export function buildTransactionUrl(
+  settlement: X402SettlementResponse | null,
+  chainConfig?: ChainConfig,
+  chainConfigs?: Record<string, ChainConfig>,
+): string | null {
+  if (!settlement?.transaction) return null;
+  const config = settlement.network
+    ? resolveChain(
+        { network: settlement.network } as X402PaymentRequirement,
+        chainConfig,
+        chainConfigs,
+      )
+    : chainConfig;
+  if (!config?.blockExplorer) return null;
+  return `${config.blockExplorer.replace(/\/+$/, '')}/tx/${settlement.transaction}`;
+}
+
+export function getRequirementDomain(
+  requirement: X402PaymentRequirement,
+): { name: string; version: string } | null {
+  const extra = requirement.extra as { name?: unknown; version?: unknown } | undefined;
+  const name = typeof extra?.name === 'string' ? extra.name : null;
+  const version = typeof extra?.version === 'string' ? extra.version : null;
+  if (!name || !version) return null;
+  return { name, version };
+}
+
 export function pickRequirement(
   accepts: X402PaymentRequirement[],
   acceptIndex: number,
@@ -170,14 +290,56 @@ export function pickRequirement(
   return accepts[0];
 }
 
+export function isRequirementAffordable(
+  requirement: X402PaymentRequirement,
+  balance?: BalanceInfo,
+): boolean | null {
+  if (!balance || balance.error || balance.balanceAtomic == null) return null;
+  const required = getRequiredAmount(requirement, balance.decimals);
+  if (required === null) return null;
+  return balance.balanceAtomic >= required;
+}
+
+export function formatBalanceDisplay(balance: BalanceInfo, locale?: string): string {
+  if (balance.balanceAtomic != null) {
+    return formatTokenAmount(
+      balance.balanceAtomic,
+      balance.decimals ?? DEFAULT_ASSET_DECIMALS,
+      locale,
+    );
+  }
+  return formatAmount(balance.balance ?? 0, locale);
+}
+
+export function checkFunds(
+  requirement: X402PaymentRequirement | undefined,
+  balance?: BalanceInfo,
+): FundsCheck {
+  const required = getRequiredAmount(requirement, balance?.decimals);
+  if (required === null || !balance || balance.error || balance.balanceAtomic == null) {
+    return { status: 'unknown', required, balance: null, shortfall: null };
+  }
+  if (balance.balanceAtomic >= required) {
+    return { status: 'sufficient', required, balance: balance.balanceAtomic, shortfall: null };
+  }
+  return {
+    status: 'insufficient',
+    required,
+    balance: balance.balanceAtomic,
+    shortfall: required - balance.balanceAtomic,
+  };
+}
+
 export function buildBalanceError(
   entry: BalanceConfigEntry,
   message: string,
 ): BalanceInfo {
   return {
+    acceptIndex: entry.index,
     network: entry.accept.network,
     chainName: entry.config?.name ?? 'Unknown chain',
     balance: null,
+    balanceAtomic: null,
     error: message,
   };
 }
@@ -1,34 +1,62 @@
 import { useCallback, useEffect, useMemo, useReducer, useRef, useState } from 'react';
-import { formatUnits, getAddress, toHex, validateTypedData, type Address } from 'viem';
+import { formatUnits, type Address } from 'viem';
 import type { Connector } from 'wagmi';
 import {
-  ConnectorAlreadyConnectedError,
   useConnect,
   useReadContracts,
+  usePublicClient,
   useSignTypedData,
   useSwitchChain,
 } from 'wagmi';
 import type {
+  AssetMetadata,
   BalanceInfo,
   ChainConfig,
+  PaywallStatus,
+  ResourceStatus,
+  X402Entitlement,
+  X402EntitlementStore,
+  X402Messages,
   X402PaymentRequirement,
   X402PaymentRequired,
+  X402PaywallEvent,
+  X402PaywallEventDetails,
+  X402PaywallEventType,
+  X402SettlementResponse,
+  X402SuccessContext,
 } from './types';
 import {
   buildBalanceConfigs,
   buildBalanceError,
-  buildTransferAuthorizationTypedData,
-  CLOCK_SKEW_SECONDS,
   DEFAULT_PROCESSING_TEXT,
-  DEFAULT_TIMEOUT_SECONDS,
-  isUserRejection,
-  normalizeAtomicAmount,
+  ERC20_ABI,
+  getAmountAtomic,
+  getAssetDecimals,
+  getAssetSymbol,
+  isAlreadyConnected,
+  resolveAssetMetadata,
+  toPaywallError,
   type BalanceConfigEntry,
-  USDC_ABI,
 } from './paywall-helpers';
-import { encodeBase64Json } from './utils';
+import {
+  X402ChainSwitchError,
+  X402NetworkError,
+  X402PaywallError,
+  X402VerificationError,
+} from './errors';
+import type { X402SchemeRegistry } from './payment-schemes';
+import { enMessages, formatMessage } from './messages';
+import { getContentMimeType, isEventStream, type X402PaidContent } from './content-renderers';
+import { isEntitlementContentType, readEntitlement, saveEntitlement } from './entitlements';
+import { getVersionCodec } from './x402-versions';
+import {
+  createPaymentPayload,
+  readPaymentRequiredPayload,
+  readResponseResult,
+  readSettlementResponse,
+  withPaymentHeader,
+} from './x402-fetch';
 
-type PaywallStatus = 'connect' | 'connected' | 'processing' | 'success' | 'error';
 type PaywallState = {
   status: PaywallStatus;
   errorMessage: string;
@@ -40,10 +68,10 @@ type PaywallAction =
   | { type: 'setError'; message: string }
   | { type: 'reset'; status: PaywallStatus; processingText: string };
 
-type BalanceContractsCall = {
+type AssetContractsCall = {
   address: Address;
-  abi: typeof USDC_ABI;
-  functionName: 'balanceOf' | 'decimals';
+  abi: typeof ERC20_ABI;
+  functionName: 'balanceOf' | 'decimals' | 'symbol';
   args?: readonly [Address];
   chainId: number;
 };
@@ -90,39 +118,118 @@ export function useConnectorAvailability(
   return availability;
 }
 
+export function useAssetMetadata(params: {
+  accepts: X402PaymentRequirement[];
+  chainConfig?: ChainConfig;
+  chainConfigs?: Record<string, ChainConfig>;
+}) {
+  const { accepts, chainConfig, chainConfigs } = params;
+
+  const balanceConfigs = useMemo<BalanceConfigEntry[]>(
+    () => buildBalanceConfigs(accepts, chainConfig, chainConfigs),
+    [accepts, chainConfig, chainConfigs],
+  );
+
+  const metadataContracts = useMemo<AssetContractsCall[]>(() => {
+    const calls: AssetContractsCall[] = [];
+
+    for (const entry of balanceConfigs) {
+      if (!entry.config || entry.error || !entry.assetAddress) continue;
+      if (getAssetDecimals(entry.accept) === null) {
+        calls.push({
+          address: entry.assetAddress,
+          abi: ERC20_ABI,
+          functionName: 'decimals',
+          chainId: entry.config.chainId,
+        });
+      }
+      if (getAssetSymbol(entry.accept) === null) {
+        calls.push({
+          address: entry.assetAddress,
+          abi: ERC20_ABI,
+          functionName: 'symbol',
+          chainId: entry.config.chainId,
+        });
+      }
+    }
+
+    return calls;
+  }, [balanceConfigs]);
+
+  const metadataQuery = useReadContracts({
+    contracts: metadataContracts,
+    allowFailure: true,
+    query: {
+      enabled: metadataContracts.length > 0,
+      retry: 2,
+      staleTime: Infinity,
+    },
+  });
+
+  const assets = useMemo<AssetMetadata[]>(() => {
+    let dataIndex = 0;
+
+    return balanceConfigs.map((entry) => {
+      if (!entry.config || entry.error || !entry.assetAddress) {
+        return resolveAssetMetadata(entry.accept);
+      }
+
+      const onchain: { decimals?: number | null; symbol?: string | null } = {};
+      if (getAssetDecimals(entry.accept) === null) {
+        const decimalsResult = metadataQuery.data?.[dataIndex];
+        dataIndex += 1;
+        const decimalsRaw = decimalsResult?.status === 'success' ? decimalsResult.result : null;
+        if (typeof decimalsRaw === 'number' || typeof decimalsRaw === 'bigint') {
+          onchain.decimals = Number(decimalsRaw);
+        }
+      }
+      if (getAssetSymbol(entry.accept) === null) {
+        const symbolResult = metadataQuery.data?.[dataIndex];
+        dataIndex += 1;
+        const symbolRaw = symbolResult?.status === 'success' ? symbolResult.result : null;
+        if (typeof symbolRaw === 'string' && symbolRaw.trim()) {
+          onchain.symbol = symbolRaw.trim();
+        }
+      }
+
+      return resolveAssetMetadata(entry.accept, onchain);
+    });
+  }, [balanceConfigs, metadataQuery.data]);
+
+  return {
+    assets,
+    isLoading: metadataQuery.isFetching,
+  };
+}
+
 export function useBalanceData(params: {
   accepts: X402PaymentRequirement[];
+  assets: AssetMetadata[];
   chainConfig?: ChainConfig;
   chainConfigs?: Record<string, ChainConfig>;
   address?: Address;
   showBalances: boolean;
 }) {
-  const { accepts, chainConfig, chainConfigs, address, showBalances } = params;
+  const { accepts, assets, chainConfig, chainConfigs, address, showBalances } = params;
 
   const balanceConfigs = useMemo<BalanceConfigEntry[]>(
     () => buildBalanceConfigs(accepts, chainConfig, chainConfigs),
     [accepts, chainConfig, chainConfigs],
   );
 
-  const balanceContracts = useMemo<BalanceContractsCall[]>(() => {
+  const balanceContracts = useMemo<AssetContractsCall[]>(() => {
     if (!address) return [];
-    const calls: BalanceContractsCall[] = [];
+    const calls: AssetContractsCall[] = [];
 
     for (const entry of balanceConfigs) {
-      if (!entry.config || entry.error || !entry.usdcAddress) continue;
+      if (!entry.config || entry.error || !entry.assetAddress) continue;
       calls.push({
-        address: entry.usdcAddress,
-        abi: USDC_ABI,
+        address: entry.assetAddress,
+        abi: ERC20_ABI,
         functionName: 'balanceOf',
         args: [address],
         chainId: entry.config.chainId,
       });
-      calls.push({
-        address: entry.usdcAddress,
-        abi: USDC_ABI,
-        functionName: 'decimals',
-        chainId: entry.config.chainId,
-      });
     }
 
     return calls;
@@ -154,63 +261,61 @@ export function useBalanceData(params: {
     let dataIndex = 0;
 
     for (const entry of balanceConfigs) {
-      if (!entry.config || entry.error || !entry.usdcAddress) {
+      if (!entry.config || entry.error || !entry.assetAddress) {
         results.push(buildBalanceError(entry, entry.error ?? 'Missing chain configuration'));
         continue;
       }
 
       const balanceResult = balanceQuery.data[dataIndex];
-      const decimalsResult = balanceQuery.data[dataIndex + 1];
-      dataIndex += 2;
+      dataIndex += 1;
 
-      if (!balanceResult || !decimalsResult) {
+      if (!balanceResult) {
         results.push(buildBalanceError(entry, 'Balance unavailable'));
         continue;
       }
 
-      if (
-        balanceResult.status === 'failure' ||
-        decimalsResult.status === 'failure'
-      ) {
-        const err =
-          balanceResult.status === 'failure'
-            ? balanceResult.error
-            : decimalsResult.error;
+      if (balanceResult.status === 'failure') {
+        const err = balanceResult.error;
         const message = err instanceof Error ? err.message : 'Failed to fetch balance';
         results.push(buildBalanceError(entry, message));
         continue;
       }
 
-      const decimalsRaw = decimalsResult.result;
       const balanceRaw = balanceResult.result;
-      if (
-        (typeof decimalsRaw !== 'bigint' && typeof decimalsRaw !== 'number') ||
-        (typeof balanceRaw !== 'bigint' && typeof balanceRaw !== 'number')
-      ) {
+      if (typeof balanceRaw !== 'bigint' && typeof balanceRaw !== 'number') {
         results.push(buildBalanceError(entry, 'Balance unavailable'));
         continue;
       }
 
-      const decimalsValue =
-        typeof decimalsRaw === 'bigint' ? Number(decimalsRaw) : decimalsRaw;
+      const asset = assets[entry.index] ?? resolveAssetMetadata(entry.accept);
       const balanceValue =
         typeof balanceRaw === 'bigint' ? balanceRaw : BigInt(balanceRaw);
-      const formatted = Number(formatUnits(balanceValue, decimalsValue));
+      const formatted = Number(formatUnits(balanceValue, asset.decimals));
 
       results.push({
+        acceptIndex: entry.index,
         network: entry.accept.network,
         chainName: entry.config.name,
+        symbol: asset.symbol,
+        decimals: asset.decimals,
         balance: formatted,
+        balanceAtomic: balanceValue,
         error: null,
       });
     }
 
     return results;
-  }, [address, balanceConfigs, balanceQuery.data, showBalances]);
+  }, [address, assets, balanceConfigs, balanceQuery.data, showBalances]);
+
+  const { refetch } = balanceQuery;
+  const refetchBalances = useCallback(() => {
+    void refetch();
+  }, [refetch]);
 
   return {
     balances,
     isLoading: balanceQuery.isFetching,
+    refetch: refetchBalances,
   };
 }
 
@@ -234,10 +339,13 @@ function paywallReducer(state: PaywallState, action: PaywallAction): PaywallStat
 }
 
 export function usePaywallStatus(params?: {
-  onError?: (error: Error) => void;
+  onError?: (error: X402PaywallError) => void;
   defaultProcessingText?: string;
+  messages?: X402Messages;
 }) {
-  const defaultProcessingText = params?.defaultProcessingText ?? DEFAULT_PROCESSING_TEXT;
+  const messages = params?.messages ?? enMessages;
+  const defaultProcessingText =
+    params?.defaultProcessingText ?? params?.messages?.processing ?? DEFAULT_PROCESSING_TEXT;
   const onError = params?.onError;
   const [state, dispatch] = useReducer(paywallReducer, {
     status: 'connect',
@@ -255,15 +363,11 @@ export function usePaywallStatus(params?: {
 
   const showError = useCallback(
     (message: string, err?: unknown) => {
-      const errorText = message || 'Payment failed. Please try again.';
+      const errorText = message || messages.errorGeneric;
       dispatch({ type: 'setError', message: errorText });
-      if (err instanceof Error) {
-        onError?.(err);
-      } else if (message) {
-        onError?.(new Error(message));
-      }
+      onError?.(toPaywallError(err, { message: errorText }));
     },
-    [onError],
+    [messages, onError],
   );
 
   const resetState = useCallback(
@@ -322,33 +426,76 @@ export function useActionLock() {
   };
 }
 
+export type EmitPaywallEvent = (
+  type: X402PaywallEventType,
+  details?: X402PaywallEventDetails,
+) => void;
+
+export function usePaywallEvents(params: {
+  onEvent?: (event: X402PaywallEvent) => void;
+  requirement?: X402PaymentRequirement;
+  x402Version: number;
+}) {
+  const onEventRef = useRef(params.onEvent);
+  onEventRef.current = params.onEvent;
+  const contextRef = useRef({ requirement: params.requirement, x402Version: params.x402Version });
+  contextRef.current = { requirement: params.requirement, x402Version: params.x402Version };
+  const lastEventAtRef = useRef<number | null>(null);
+
+  const emitEvent = useCallback<EmitPaywallEvent>((type, details) => {
+    const onEvent = onEventRef.current;
+    if (!onEvent) return;
+    const now = Date.now();
+    const durationMs = lastEventAtRef.current === null ? 0 : now - lastEventAtRef.current;
+    lastEventAtRef.current = now;
+    const { requirement, x402Version } = contextRef.current;
+    // Only descriptive fields of the offer; payment headers and signatures never leave the hook.
+    onEvent({
+      type,
+      timestamp: now,
+      durationMs,
+      x402Version,
+      network: requirement?.network,
+      scheme: requirement?.scheme,
+      amount: requirement ? getAmountAtomic(requirement) ?? undefined : undefined,
+      asset: requirement?.asset,
+      ...details,
+    });
+  }, []);
+
+  return { emitEvent };
+}
+
 type UsePaymentSubmissionParams = {
   accountAddress?: Address;
   accountChainId?: number;
   requirement?: X402PaymentRequirement;
   resolvedChain?: ChainConfig;
   amountAtomic?: string | null;
+  decimals?: number;
+  schemes: X402SchemeRegistry;
   paymentRequired: X402PaymentRequired;
   currentUrl: string;
+  messages: X402Messages;
   requestInit?: RequestInit;
-  onSuccess?: (
-    result: unknown,
-    context: {
-      response: Response;
-      paymentHeader: string;
-    },
-  ) => void;
+  entitlementStore?: X402EntitlementStore;
+  entitlementTtlSeconds?: number | null;
+  captureContent?: boolean;
+  onSuccess?: (result: unknown, context: X402SuccessContext) => void;
+  onPaymentRequired?: (payload: unknown) => boolean;
   beginAction: () => number | null;
   endAction: () => void;
   isActionStale: (actionId: number) => boolean;
   setStatus: (status: PaywallStatus) => void;
   setProcessingText: (text: string) => void;
   showError: (message: string, err?: unknown) => void;
+  emitEvent: EmitPaywallEvent;
 };
 
 type UseConnectorConnectParams = {
   accountStatus?: string;
   resolvedChain?: ChainConfig;
+  messages: X402Messages;
   onConnected: () => void;
   beginAction: () => number | null;
   endAction: () => void;
@@ -356,12 +503,14 @@ type UseConnectorConnectParams = {
   setStatus: (status: PaywallStatus) => void;
   setProcessingText: (text: string) => void;
   showError: (message: string, err?: unknown) => void;
+  emitEvent: EmitPaywallEvent;
 };
 
 export function useConnectorConnect(params: UseConnectorConnectParams) {
   const {
     accountStatus,
     resolvedChain,
+    messages,
     onConnected,
     beginAction,
     endAction,
@@ -369,21 +518,14 @@ export function useConnectorConnect(params: UseConnectorConnectParams) {
     setStatus,
     setProcessingText,
     showError,
+    emitEvent,
   } = params;
   const connect = useConnect();
 
-  const isAlreadyConnected = useCallback((error: unknown) => {
-    if (!error) return false;
-    if (error instanceof ConnectorAlreadyConnectedError) return true;
-    const err = error as { name?: string; message?: string };
-    if (err.name === 'ConnectorAlreadyConnectedError') return true;
-    return Boolean(err.message?.toLowerCase().includes('already connected'));
-  }, []);
-
   const connectWithConnector = useCallback(
     async (connector: Connector) => {
       if (!resolvedChain) {
-        showError('Missing chain configuration for this payment.');
+        showError(messages.errorMissingChain);
         return;
       }
       if (accountStatus === 'connected') {
@@ -393,9 +535,10 @@ export function useConnectorConnect(params: UseConnectorConnectParams) {
       const actionId = beginAction();
       if (!actionId) return;
 
+      emitEvent('connector_selected', { connectorId: connector.id });
       try {
         setStatus('processing');
-        setProcessingText(`Connecting ${connector.name}...`);
+        setProcessingText(formatMessage(messages.connecting, { connector: connector.name }));
 
         await connect.mutateAsync({
           connector,
@@ -403,15 +546,20 @@ export function useConnectorConnect(params: UseConnectorConnectParams) {
         });
         if (isActionStale(actionId)) return;
 
+        emitEvent('connect_succeeded', { connectorId: connector.id });
         onConnected();
       } catch (err: unknown) {
         if (isAlreadyConnected(err)) {
+          emitEvent('connect_succeeded', { connectorId: connector.id });
           onConnected();
-        } else if (isUserRejection(err)) {
-          showError('Connection rejected by user', err);
-        } else {
-          showError((err as Error).message || 'Failed to connect wallet', err);
+          return;
         }
+        const error = toPaywallError(err, { message: messages.errorConnectFailed });
+        emitEvent('failed', { connectorId: connector.id, errorCode: error.code });
+        showError(
+          error.code === 'USER_REJECTED' ? messages.errorConnectionRejected : error.message,
+          error,
+        );
       } finally {
         endAction();
       }
@@ -420,9 +568,10 @@ export function useConnectorConnect(params: UseConnectorConnectParams) {
       accountStatus,
       beginAction,
       connect,
+      emitEvent,
       endAction,
-      isAlreadyConnected,
       isActionStale,
+      messages,
       onConnected,
       resolvedChain,
       setProcessingText,
@@ -444,178 +593,262 @@ export function usePaymentSubmission(params: UsePaymentSubmissionParams) {
     requirement,
     resolvedChain,
     amountAtomic,
+    decimals,
+    schemes,
     paymentRequired,
     currentUrl,
+    messages,
     requestInit,
+    entitlementStore,
+    entitlementTtlSeconds,
+    captureContent = false,
     onSuccess,
+    onPaymentRequired,
     beginAction,
     endAction,
     isActionStale,
     setStatus,
     setProcessingText,
     showError,
+    emitEvent,
   } = params;
 
   const signTypedData = useSignTypedData();
   const switchChain = useSwitchChain();
+  const publicClient = usePublicClient({ chainId: resolvedChain?.chainId });
+  const [settlement, setSettlement] = useState<X402SettlementResponse | null>(null);
+  const [content, setContent] = useState<X402PaidContent | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const submittedRef = useRef(false);
+
+  // Only a payment that has not been sent can be cancelled: once the signed request is out the
+  // server may settle it, so the submission runs to completion and is recorded.
+  const cancelSubmission = useCallback(() => {
+    if (submittedRef.current) return false;
+    abortRef.current?.abort();
+    return true;
+  }, []);
 
   const ensureChain = useCallback(
     async (config: ChainConfig) => {
       if (accountChainId === config.chainId) return;
+      emitEvent('chain_switch_requested', { chainId: config.chainId });
       try {
         await switchChain.mutateAsync({ chainId: config.chainId });
       } catch (switchError: unknown) {
-        throw new Error(
-          (switchError as Error).message ||
-            `Please switch to ${config.name} in your wallet.`,
-        );
+        throw new X402ChainSwitchError(config, {
+          message:
+            (switchError as Error | null)?.message ||
+            formatMessage(messages.errorSwitchChain, { chain: config.name }),
+          cause: switchError,
+          requirement,
+        });
       }
     },
-    [accountChainId, switchChain],
+    [accountChainId, emitEvent, messages, requirement, switchChain],
   );
 
   const signPayment = useCallback(async () => {
+    const fail = (error: X402PaywallError) => {
+      emitEvent('failed', { errorCode: error.code });
+      showError(error.message, error);
+    };
+
     if (!accountAddress) {
-      showError('Wallet not connected.');
+      fail(
+        new X402PaywallError('WALLET_NOT_CONNECTED', messages.errorWalletNotConnected, {
+          requirement,
+        }),
+      );
       return;
     }
 
     if (!requirement || !resolvedChain) {
-      showError('Missing payment requirement or chain configuration.');
+      fail(
+        new X402PaywallError('INVALID_REQUIREMENT', messages.errorMissingRequirement, {
+          requirement,
+        }),
+      );
       return;
     }
 
     if (!requirement.payTo || !amountAtomic || !requirement.asset) {
-      showError('Payment requirement missing required fields.');
+      fail(
+        new X402PaywallError('INVALID_REQUIREMENT', messages.errorMissingFields, {
+          requirement,
+        }),
+      );
       return;
     }
 
-    const extra = requirement.extra as { name?: unknown; version?: unknown } | undefined;
-    const domainName = typeof extra?.name === 'string' ? extra.name : null;
-    const domainVersion = typeof extra?.version === 'string' ? extra.version : null;
-
-    if (!domainName || !domainVersion) {
-      showError('Payment requirement missing EIP-712 domain details.');
+    if (!schemes.resolve(requirement)) {
+      fail(
+        new X402PaywallError(
+          'INVALID_REQUIREMENT',
+          formatMessage(messages.errorUnsupportedScheme, { scheme: requirement.scheme }),
+          { requirement },
+        ),
+      );
       return;
     }
 
     const actionId = beginAction();
     if (!actionId) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const isCancelled = () => isActionStale(actionId) || controller.signal.aborted;
 
     try {
+      setSettlement(null);
+      setContent(null);
       setStatus('processing');
-      setProcessingText('Checking network...');
+      setProcessingText(messages.checkingNetwork);
       await ensureChain(resolvedChain);
-      if (isActionStale(actionId)) return;
-      setProcessingText('Preparing payment...');
-
-      const from = getAddress(accountAddress);
-      const to = getAddress(requirement.payTo);
-      const asset = getAddress(requirement.asset);
-      const normalizedAmount = normalizeAtomicAmount(amountAtomic) ?? amountAtomic;
-      const value = BigInt(normalizedAmount);
-      const maxTimeoutSeconds = requirement.maxTimeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS;
-      const now = Math.floor(Date.now() / 1000);
-      const validAfter = BigInt(now - CLOCK_SKEW_SECONDS);
-      const validBefore = BigInt(now + maxTimeoutSeconds);
-      const nonce = toHex(crypto.getRandomValues(new Uint8Array(32)));
-
-      const domain = {
-        name: domainName,
-        version: domainVersion,
-        chainId: resolvedChain.chainId,
-        verifyingContract: asset,
-      };
-
-      const message = {
-        from,
-        to,
-        value,
-        validAfter,
-        validBefore,
-        nonce,
-      };
-
-      setProcessingText('Please sign in your wallet...');
-
-      const typedData = buildTransferAuthorizationTypedData({ domain, message });
-      validateTypedData(typedData);
-
-      const signature = await signTypedData.mutateAsync(typedData);
-      if (isActionStale(actionId)) return;
-
-      setProcessingText('Submitting payment...');
+      if (isCancelled()) return;
+      setProcessingText(messages.signInWallet);
+      emitEvent('signature_requested', { chainId: resolvedChain.chainId });
 
-      const paymentPayload = {
+      const { paymentHeader } = await createPaymentPayload({
+        requirement,
+        chainId: resolvedChain.chainId,
         x402Version: paymentRequired.x402Version,
-        scheme: requirement.scheme,
-        network: requirement.network,
-        payload: {
-          signature,
-          authorization: {
-            from,
-            to,
-            value: value.toString(),
-            validAfter: validAfter.toString(),
-            validBefore: validBefore.toString(),
-            nonce,
-          },
+        decimals,
+        schemes,
+        readContract: publicClient
+          ? (contract) =>
+              publicClient.readContract(
+                contract as Parameters<typeof publicClient.readContract>[0],
+              )
+          : undefined,
+        signer: {
+          address: accountAddress,
+          signTypedData: (typedData) => signTypedData.mutateAsync(typedData),
         },
-      };
-
-      const paymentHeader = encodeBase64Json(paymentPayload);
+      });
+      if (isCancelled()) return;
 
-      const headers = new Headers(requestInit?.headers);
-      headers.set('X-PAYMENT-SIGNATURE', paymentHeader);
-      headers.set('PAYMENT-SIGNATURE', paymentHeader);
-      headers.set('Accept', 'application/json');
+      setProcessingText(messages.submittingPayment);
+      emitEvent('submission_sent');
+      submittedRef.current = true;
+      setIsSubmitting(true);
 
       const response = await fetch(currentUrl, {
-        method: requestInit?.method || 'GET',
-        ...requestInit,
-        headers,
+        ...withPaymentHeader(requestInit, paymentHeader, paymentRequired.x402Version),
+        signal: requestInit?.signal ?? controller.signal,
+      }).catch((fetchError: unknown) => {
+        throw new X402NetworkError(messages.errorServerUnreachable, {
+          cause: fetchError,
+          requirement,
+        });
       });
-      if (isActionStale(actionId)) return;
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        const message =
-          (errorData as { message?: string }).message ||
-          'Payment verification failed';
-        throw new Error(message);
+      const paymentRequiredPayload =
+        response.status === 402 ? await readPaymentRequiredPayload(response) : null;
+      // A 402 carrying new requirements is a re-quote: the user authorizes again.
+      if (
+        paymentRequiredPayload &&
+        onPaymentRequired &&
+        !isActionStale(actionId) &&
+        onPaymentRequired(paymentRequiredPayload)
+      ) {
+        setStatus('connected');
+        return;
       }
 
-      let result: unknown;
-      try {
-        result = await response.json();
-      } catch {
-        result = await response.text();
+      if (!response.ok) {
+        const errorData = (await response.json().catch(() => ({}))) as {
+          message?: string;
+          reasons?: unknown;
+        };
+        const serverError = (paymentRequiredPayload as { error?: unknown } | null)?.error;
+        const message =
+          errorData.message ||
+          (typeof serverError === 'string' && serverError) ||
+          messages.errorVerificationFailed;
+        throw new X402VerificationError(message, {
+          status: response.status,
+          reasons: Array.isArray(errorData.reasons) ? errorData.reasons.map(String) : [],
+          requirement,
+        });
       }
-      if (isActionStale(actionId)) return;
 
+      const mimeType = getContentMimeType(requirement, response);
+      // Event streams are left unread so the content renderer can consume them as they arrive.
+      const streaming = captureContent && isEventStream(mimeType);
+      const contentResponse = captureContent ? (streaming ? response : response.clone()) : null;
+      const result = streaming ? null : await readResponseResult(response);
+
+      const settlementResponse = readSettlementResponse(response);
+      const contentType = response.headers.get('Content-Type');
+      // Binary bodies would be cached as mangled text, so only text and JSON are remembered.
+      const cacheable = !streaming && isEntitlementContentType(contentType);
+      const entitlement =
+        entitlementStore && cacheable
+          ? await saveEntitlement(entitlementStore, {
+              resourceUrl: currentUrl,
+              payer: accountAddress,
+              result,
+              contentType,
+              settlement: settlementResponse,
+              ttlSeconds: entitlementTtlSeconds,
+            }).catch(() => null)
+          : null;
+
+      setSettlement(settlementResponse);
+      setContent(contentResponse ? { response: contentResponse, mimeType } : null);
       setStatus('success');
-      onSuccess?.(result, { response, paymentHeader });
+      emitEvent('verified', { httpStatus: response.status });
+      onSuccess?.(result, {
+        source: 'payment',
+        response,
+        paymentHeader,
+        settlement: settlementResponse,
+        entitlement,
+      });
     } catch (err: unknown) {
-      if (isUserRejection(err)) {
-        showError('Transaction rejected by user', err);
+      const error = toPaywallError(err, {
+        message: messages.errorGeneric,
+        requirement,
+      });
+      if (error.code === 'USER_REJECTED') {
+        emitEvent('signature_rejected');
       } else {
-        showError((err as Error).message || 'Payment failed. Please try again.', err);
+        emitEvent('failed', {
+          errorCode: error.code,
+          httpStatus: error instanceof X402VerificationError ? error.status : undefined,
+        });
       }
+      showError(
+        error.code === 'USER_REJECTED' ? messages.errorTransactionRejected : error.message,
+        error,
+      );
     } finally {
+      submittedRef.current = false;
+      setIsSubmitting(false);
       endAction();
     }
   }, [
     accountAddress,
     amountAtomic,
     beginAction,
+    captureContent,
+    decimals,
+    emitEvent,
     endAction,
     ensureChain,
+    entitlementStore,
+    entitlementTtlSeconds,
     isActionStale,
+    messages,
+    onPaymentRequired,
     onSuccess,
     paymentRequired.x402Version,
+    publicClient,
     requestInit,
     requirement,
     resolvedChain,
+    schemes,
     setProcessingText,
     setStatus,
     showError,
@@ -625,6 +858,166 @@ export function usePaymentSubmission(params: UsePaymentSubmissionParams) {
 
   return {
     signPayment,
+    cancelSubmission,
+    isSubmitting,
+    settlement,
+    content,
     isPending: signTypedData.isPending || switchChain.isPending,
   };
 }
+
+export function useQuoteExpiry(params: {
+  quotedAt: number;
+  timeoutSeconds?: number;
+  enabled: boolean;
+}) {
+  const { quotedAt, timeoutSeconds, enabled } = params;
+  const expiresAt = timeoutSeconds ? quotedAt + timeoutSeconds * 1000 : null;
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!enabled || expiresAt === null) return;
+    setNow(Date.now());
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= expiresAt) clearInterval(timer);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [enabled, expiresAt]);
+
+  const secondsLeft =
+    expiresAt === null ? null : Math.max(0, Math.ceil((expiresAt - now) / 1000));
+  return { expiresAt, secondsLeft, isExpired: secondsLeft === 0 };
+}
+
+export function useStoredEntitlement(params: {
+  store?: X402EntitlementStore;
+  resourceUrl: string;
+  payer?: Address;
+}) {
+  const { store, resourceUrl, payer } = params;
+  const [entitlement, setEntitlement] = useState<X402Entitlement | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  useEffect(() => {
+    setEntitlement(null);
+    if (!store || !payer) return;
+    let cancelled = false;
+    setIsChecking(true);
+    readEntitlement(store, resourceUrl, payer)
+      .catch(() => null)
+      .then((stored) => {
+        if (cancelled) return;
+        setEntitlement(stored);
+        setIsChecking(false);
+      });
+    return () => {
+      cancelled = true;
+      setIsChecking(false);
+    };
+  }, [payer, resourceUrl, store]);
+
+  return { entitlement, isChecking };
+}
+
+export function usePaymentRequired(params: {
+  resourceUrl?: string;
+  requestInit?: RequestInit;
+  onSuccess?: (result: unknown, context: X402SuccessContext) => void;
+  messages?: X402Messages;
+  onError?: (error: X402PaywallError) => void;
+}) {
+  const { resourceUrl, requestInit } = params;
+  const messages = params.messages ?? enMessages;
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+  const [state, setState] = useState<{
+    status: ResourceStatus;
+    paymentRequired: X402PaymentRequired | null;
+    errorMessage: string;
+  }>({ status: 'loading', paymentRequired: null, errorMessage: '' });
+  const [reloadKey, setReloadKey] = useState(0);
+  const callbacksRef = useRef({ onSuccess: params.onSuccess, onError: params.onError });
+  callbacksRef.current = { onSuccess: params.onSuccess, onError: params.onError };
+  const requestInitRef = useRef(requestInit);
+  requestInitRef.current = requestInit;
+
+  useEffect(() => {
+    if (!resourceUrl) return;
+    let cancelled = false;
+
+    async function loadResource(url: string) {
+      setState({ status: 'loading', paymentRequired: null, errorMessage: '' });
+      try {
+        const init = requestInitRef.current;
+        const headers = new Headers(init?.headers);
+        if (!headers.has('Accept')) {
+          headers.set('Accept', 'application/json');
+        }
+        const response = await fetch(url, { ...init, headers });
+        if (cancelled) return;
+
+        if (response.status === 402) {
+          const paymentRequired = await readPaymentRequiredPayload(response);
+          if (cancelled) return;
+          if (!paymentRequired) {
+            throw new X402PaywallError(
+              'INVALID_REQUIREMENT',
+              messagesRef.current.errorMissingPaymentDetails,
+            );
+          }
+          getVersionCodec((paymentRequired as { x402Version?: unknown }).x402Version);
+          // Field-level validation happens in the checkout so issues reach the diagnostics panel.
+          setState({
+            status: 'payment-required',
+            paymentRequired: paymentRequired as X402PaymentRequired,
+            errorMessage: '',
+          });
+          return;
+        }
+
+        if (!response.ok) {
+          throw new X402NetworkError(
+            formatMessage(messagesRef.current.errorLoadFailedStatus, { status: response.status }),
+            { status: response.status },
+          );
+        }
+
+        const result = await readResponseResult(response);
+        if (cancelled) return;
+        setState({ status: 'unlocked', paymentRequired: null, errorMessage: '' });
+        callbacksRef.current.onSuccess?.(result, {
+          source: 'free',
+          response,
+          paymentHeader: '',
+          settlement: readSettlementResponse(response),
+          entitlement: null,
+        });
+      } catch (err: unknown) {
+        if (cancelled) return;
+        const error = toPaywallError(err, { message: messagesRef.current.errorLoadFailed });
+        setState({
+          status: 'error',
+          paymentRequired: null,
+          errorMessage: error.message || messagesRef.current.errorLoadFailed,
+        });
+        callbacksRef.current.onError?.(error);
+      }
+    }
+
+    void loadResource(resourceUrl);
+    return () => {
+      cancelled = true;
+    };
+  }, [resourceUrl, reloadKey]);
+
+  const reload = useCallback(() => {
+    setReloadKey((key) => key + 1);
+  }, []);
+
+  return {
+    ...state,
+    reload,
+  };
+}
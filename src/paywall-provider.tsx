@@ -0,0 +1,281 @@
+'use client';
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import { createPortal } from 'react-dom';
+import type {
+  X402OpenPaywallOptions,
+  X402PaywallEvent,
+  X402PaywallOutcome,
+  X402PaywallPresentation,
+  X402PaywallProps,
+  X402PaywallProviderProps,
+  X402SuccessContext,
+} from './types';
+import { X402PaywallError } from './errors';
+import { resolveMessages } from './messages';
+import { X402Paywall } from './Paywall';
+
+export interface X402PaywallController {
+  openPaywall: (options: X402OpenPaywallOptions) => Promise<X402PaywallOutcome>;
+  closePaywall: () => void;
+  isOpen: boolean;
+}
+
+type ActivePaywall = {
+  id: number;
+  options: X402OpenPaywallOptions;
+  resolve: (outcome: X402PaywallOutcome) => void;
+  reject: (error: X402PaywallError) => void;
+};
+
+const X402PaywallContext = createContext<X402PaywallController | null>(null);
+
+const FOCUSABLE_SELECTOR = [
+  'a[href]',
+  'button:not([disabled])',
+  'input:not([disabled])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  'iframe',
+  '[tabindex]:not([tabindex="-1"])',
+].join(', ');
+
+function getFocusable(container: HTMLElement): HTMLElement[] {
+  return Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR));
+}
+
+function PaywallDialog(props: {
+  presentation: X402PaywallPresentation;
+  label: string;
+  closeLabel: string;
+  closeDisabled: boolean;
+  onClose: () => void;
+  children: React.ReactNode;
+}) {
+  const { presentation, label, closeLabel, closeDisabled, onClose, children } = props;
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const previousFocus = document.activeElement as HTMLElement | null;
+    const previousOverflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+    const dialog = dialogRef.current;
+    if (dialog) (getFocusable(dialog)[0] ?? dialog).focus();
+    return () => {
+      document.body.style.overflow = previousOverflow;
+      previousFocus?.focus?.();
+    };
+  }, []);
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === 'Escape') {
+      event.stopPropagation();
+      onClose();
+      return;
+    }
+    if (event.key !== 'Tab' || !dialogRef.current) return;
+    const focusable = getFocusable(dialogRef.current);
+    if (focusable.length === 0) {
+      event.preventDefault();
+      return;
+    }
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    if (event.shiftKey && document.activeElement === first) {
+      event.preventDefault();
+      last.focus();
+    } else if (!event.shiftKey && document.activeElement === last) {
+      event.preventDefault();
+      first.focus();
+    }
+  };
+
+  return createPortal(
+    <div
+      className={`x402-paywall-overlay x402-paywall-overlay--${presentation}`}
+      onMouseDown={(event) => {
+        if (event.target === event.currentTarget) onClose();
+      }}
+    >
+      <div
+        ref={dialogRef}
+        className={`x402-paywall-dialog x402-paywall-dialog--${presentation}`}
+        role="dialog"
+        aria-modal="true"
+        aria-label={label}
+        tabIndex={-1}
+        onKeyDown={handleKeyDown}
+      >
+        <button
+          type="button"
+          className="x402-paywall-dialog__close"
+          aria-label={closeLabel}
+          disabled={closeDisabled}
+          onClick={onClose}
+        >
+          ×
+        </button>
+        {children}
+      </div>
+    </div>,
+    document.body,
+  );
+}
+
+export function X402PaywallProvider(props: X402PaywallProviderProps) {
+  const { children, presentation = 'modal', defaults } = props;
+  const [active, setActive] = useState<ActivePaywall | null>(null);
+  const activeRef = useRef<ActivePaywall | null>(null);
+  const lastErrorRef = useRef<X402PaywallError | null>(null);
+  const nextIdRef = useRef(0);
+  const activeOptions = active?.options;
+  const messages = useMemo(
+    () =>
+      resolveMessages(
+        activeOptions?.locale ?? defaults?.locale,
+        activeOptions?.messages ?? defaults?.messages,
+      ),
+    [activeOptions, defaults?.locale, defaults?.messages],
+  );
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+  // A signed payment on its way to the server cannot be recalled, so the dialog stays open
+  // until it settles.
+  const submittingRef = useRef(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const setSubmitting = useCallback((value: boolean) => {
+    submittingRef.current = value;
+    setIsSubmitting(value);
+  }, []);
+
+  const settle = useCallback(
+    (outcome: { value: X402PaywallOutcome } | { error: X402PaywallError }) => {
+      const current = activeRef.current;
+      if (!current) return;
+      activeRef.current = null;
+      setActive(null);
+      setSubmitting(false);
+      if ('value' in outcome) current.resolve(outcome.value);
+      else current.reject(outcome.error);
+    },
+    [setSubmitting],
+  );
+
+  const closePaywall = useCallback(() => {
+    if (submittingRef.current) return;
+    const error =
+      lastErrorRef.current ??
+      new X402PaywallError('CANCELLED', messagesRef.current.errorPaymentCancelled);
+    settle({ error });
+  }, [settle]);
+
+  const openPaywall = useCallback(
+    (options: X402OpenPaywallOptions) => {
+      if (activeRef.current) {
+        settle({
+          error: new X402PaywallError('CANCELLED', messagesRef.current.errorPaywallReplaced),
+        });
+      }
+      lastErrorRef.current = null;
+      return new Promise<X402PaywallOutcome>((resolve, reject) => {
+        nextIdRef.current += 1;
+        const entry: ActivePaywall = { id: nextIdRef.current, options, resolve, reject };
+        activeRef.current = entry;
+        setActive(entry);
+      });
+    },
+    [settle],
+  );
+
+  useEffect(
+    () => () => {
+      if (activeRef.current) {
+        activeRef.current.reject(
+          new X402PaywallError('CANCELLED', messagesRef.current.errorPaymentCancelled),
+        );
+        activeRef.current = null;
+      }
+    },
+    [],
+  );
+
+  const controller = useMemo<X402PaywallController>(
+    () => ({ openPaywall, closePaywall, isOpen: active !== null }),
+    [active, closePaywall, openPaywall],
+  );
+
+  let dialog: React.ReactNode = null;
+  if (active && activeOptions) {
+    const { presentation: activePresentation, closeOnSuccess = true } = activeOptions;
+    const paywallProps: X402PaywallProps = {
+      ...defaults,
+      ...activeOptions,
+      className: [
+        `x402-paywall--${activePresentation ?? presentation}`,
+        defaults?.className,
+        activeOptions.className,
+      ]
+        .filter(Boolean)
+        .join(' '),
+      onEvent: (event: X402PaywallEvent) => {
+        activeOptions.onEvent?.(event);
+        if (activeRef.current?.id !== active.id) return;
+        if (event.type === 'submission_sent') setSubmitting(true);
+        // A re-quote reloads the requirements instead of finishing the submission.
+        if (['verified', 'failed', 'requirement_loaded'].includes(event.type)) {
+          setSubmitting(false);
+        }
+      },
+      onSuccess: (result: unknown, context: X402SuccessContext) => {
+        activeOptions.onSuccess?.(result, context);
+        setSubmitting(false);
+        if (activeRef.current?.id !== active.id) return;
+        if (closeOnSuccess) {
+          settle({ value: { result, context } });
+        } else {
+          activeRef.current.resolve({ result, context });
+        }
+      },
+      onError: (error: X402PaywallError) => {
+        activeOptions.onError?.(error);
+        lastErrorRef.current = error;
+      },
+    };
+
+    dialog = (
+      <PaywallDialog
+        presentation={activePresentation ?? presentation}
+        label={messages.title}
+        closeLabel={messages.close}
+        closeDisabled={isSubmitting}
+        onClose={closePaywall}
+      >
+        <X402Paywall key={active.id} {...paywallProps} />
+      </PaywallDialog>
+    );
+  }
+
+  return (
+    <X402PaywallContext.Provider value={controller}>
+      {children}
+      {dialog}
+    </X402PaywallContext.Provider>
+  );
+}
+
+export function useX402Paywall(): X402PaywallController {
+  const controller = useContext(X402PaywallContext);
+  if (!controller) {
+    throw new Error('useX402Paywall must be used inside an X402PaywallProvider.');
+  }
+  return controller;
+}
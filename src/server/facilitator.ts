@@ -0,0 +1,256 @@
+import { keccak256, type Hex } from 'viem';
+import { DEFAULT_CHAIN_CONFIGS } from '../constants';
+import { X402FacilitatorError } from '../errors';
+import type {
+  X402FacilitatorRequest,
+  X402FacilitatorSupportedResponse,
+  X402FacilitatorVerifyResponse,
+  X402PaymentPayload,
+  X402PaymentRequirement,
+  X402SettlementResponse,
+  X402SupportedKind,
+} from '../types';
+import type { X402SchemeRegistry } from '../payment-schemes';
+import { verifyPaymentSignature } from './verify';
+import { getVersionCodec, X402_VERSION_CODECS } from '../x402-versions';
+
+export const MOCK_FACILITATOR_URL = 'http://mock-facilitator.local';
+
+export interface X402FacilitatorClient {
+  verify: (
+    paymentPayload: X402PaymentPayload,
+    requirement: X402PaymentRequirement,
+  ) => Promise<X402FacilitatorVerifyResponse>;
+  settle: (
+    paymentPayload: X402PaymentPayload,
+    requirement: X402PaymentRequirement,
+  ) => Promise<X402SettlementResponse>;
+  supported: () => Promise<X402FacilitatorSupportedResponse>;
+}
+
+export interface X402FacilitatorClientOptions {
+  url: string;
+  headers?: HeadersInit | (() => HeadersInit | Promise<HeadersInit>);
+  fetch?: typeof fetch;
+}
+
+function buildFacilitatorRequest(
+  paymentPayload: X402PaymentPayload,
+  requirement: X402PaymentRequirement,
+): X402FacilitatorRequest {
+  const codec = getVersionCodec(paymentPayload.x402Version);
+  return {
+    x402Version: codec.version,
+    paymentPayload,
+    paymentRequirements: codec.encodeRequirement(requirement),
+  };
+}
+
+function isVerifyResponse(value: unknown): value is X402FacilitatorVerifyResponse {
+  return Boolean(value) && typeof (value as { isValid?: unknown }).isValid === 'boolean';
+}
+
+function isSettlementResponse(value: unknown): value is X402SettlementResponse {
+  return Boolean(value) && typeof (value as { success?: unknown }).success === 'boolean';
+}
+
+function isSupportedResponse(value: unknown): value is X402FacilitatorSupportedResponse {
+  return Boolean(value) && Array.isArray((value as { kinds?: unknown }).kinds);
+}
+
+export function createFacilitatorClient(
+  options: X402FacilitatorClientOptions,
+): X402FacilitatorClient {
+  const baseUrl = options.url.replace(/\/+$/, '');
+
+  async function request<T>(
+    path: string,
+    init: RequestInit,
+    isExpected: (value: unknown) => value is T,
+  ): Promise<T> {
+    const fetchImpl = options.fetch ?? fetch;
+    const extraHeaders =
+      typeof options.headers === 'function' ? await options.headers() : options.headers;
+    const headers = new Headers(extraHeaders);
+    headers.set('Accept', 'application/json');
+    if (init.body) headers.set('Content-Type', 'application/json');
+
+    let response: Response;
+    try {
+      response = await fetchImpl(`${baseUrl}${path}`, { ...init, headers });
+    } catch (error: unknown) {
+      throw new X402FacilitatorError(
+        `Facilitator request to ${path} failed: ${(error as Error).message || 'network error'}`,
+      );
+    }
+
+    const body = await response.json().catch(() => null);
+    // Verify and settle report failures in the body, often with a 4xx status.
+    if (isExpected(body)) return body;
+    throw new X402FacilitatorError(
+      `Facilitator ${path} returned an unexpected response (${response.status}).`,
+      { status: response.status, body },
+    );
+  }
+
+  return {
+    verify: (paymentPayload, requirement) =>
+      request(
+        '/verify',
+        {
+          method: 'POST',
+          body: JSON.stringify(buildFacilitatorRequest(paymentPayload, requirement)),
+        },
+        isVerifyResponse,
+      ),
+    settle: (paymentPayload, requirement) =>
+      request(
+        '/settle',
+        {
+          method: 'POST',
+          body: JSON.stringify(buildFacilitatorRequest(paymentPayload, requirement)),
+        },
+        isSettlementResponse,
+      ),
+    supported: () => request('/supported', { method: 'GET' }, isSupportedResponse),
+  };
+}
+
+export interface X402MockFacilitatorOptions {
+  schemes?: X402SchemeRegistry;
+  kinds?: X402SupportedKind[];
+  now?: () => number;
+}
+
+export interface X402MockFacilitator {
+  client: X402FacilitatorClient;
+  fetch: typeof fetch;
+  handle: (request: Request) => Promise<Response>;
+  settlements: X402SettlementResponse[];
+}
+
+const DEFAULT_MOCK_KINDS: X402SupportedKind[] = Object.keys(DEFAULT_CHAIN_CONFIGS).map(
+  (network) => ({ x402Version: 2, scheme: 'exact', network }),
+);
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function isFacilitatorRequest(value: unknown): value is X402FacilitatorRequest {
+  if (!value || typeof value !== 'object') return false;
+  const body = value as Partial<X402FacilitatorRequest>;
+  return (
+    Boolean(body.paymentPayload) &&
+    typeof body.paymentPayload === 'object' &&
+    Boolean(body.paymentRequirements) &&
+    typeof body.paymentRequirements === 'object'
+  );
+}
+
+export function createMockFacilitator(
+  options: X402MockFacilitatorOptions = {},
+): X402MockFacilitator {
+  const { schemes, kinds = DEFAULT_MOCK_KINDS } = options;
+  const settled = new Set<string>();
+  const settlements: X402SettlementResponse[] = [];
+
+  function verify(body: X402FacilitatorRequest, requirement: X402PaymentRequirement) {
+    return verifyPaymentSignature({
+      payment: body.paymentPayload,
+      requirement,
+      schemes,
+      now: options.now?.(),
+    });
+  }
+
+  async function handle(request: Request): Promise<Response> {
+    const { pathname } = new URL(request.url);
+
+    if (pathname.endsWith('/supported')) {
+      return jsonResponse({ kinds } satisfies X402FacilitatorSupportedResponse);
+    }
+
+    if (request.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, 405);
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!isFacilitatorRequest(body)) {
+      return jsonResponse({ isValid: false, invalidReason: 'invalid_payload' }, 400);
+    }
+
+    const codec = X402_VERSION_CODECS[body.x402Version];
+    const requirement = codec?.decodeRequirement(body.paymentRequirements);
+    if (!codec || !requirement) {
+      return jsonResponse(
+        { isValid: false, invalidReason: codec ? 'invalid_payload' : 'unsupported_version' },
+        400,
+      );
+    }
+
+    const verification = await verify(body, requirement);
+
+    if (pathname.endsWith('/verify')) {
+      return jsonResponse({
+        isValid: verification.isValid,
+        invalidReason: verification.reasons[0],
+        payer: verification.payer ?? undefined,
+      } satisfies X402FacilitatorVerifyResponse);
+    }
+
+    if (pathname.endsWith('/settle')) {
+      const network = codec.toWireNetwork(requirement.network);
+      if (!verification.isValid || !verification.authorization) {
+        return jsonResponse(
+          {
+            success: false,
+            errorReason: verification.reasons[0] ?? 'invalid_payload',
+            network,
+            payer: verification.payer ?? undefined,
+          } satisfies X402SettlementResponse,
+          400,
+        );
+      }
+
+      const { authorization } = verification;
+      const settlementKey = `${authorization.from.toLowerCase()}:${authorization.nonce}`;
+      if (settled.has(settlementKey)) {
+        return jsonResponse(
+          {
+            success: false,
+            errorReason: 'nonce_already_used',
+            network,
+            payer: verification.payer ?? undefined,
+          } satisfies X402SettlementResponse,
+          400,
+        );
+      }
+      settled.add(settlementKey);
+
+      const settlement: X402SettlementResponse = {
+        success: true,
+        transaction: keccak256(body.paymentPayload.payload.signature as Hex),
+        network,
+        payer: verification.payer ?? undefined,
+      };
+      settlements.push(settlement);
+      return jsonResponse(settlement);
+    }
+
+    return jsonResponse({ error: 'Not found' }, 404);
+  }
+
+  const mockFetch = ((input: RequestInfo | URL, init?: RequestInit) =>
+    handle(new Request(input, init))) as typeof fetch;
+
+  return {
+    client: createFacilitatorClient({ url: MOCK_FACILITATOR_URL, fetch: mockFetch }),
+    fetch: mockFetch,
+    handle,
+    settlements,
+  };
+}
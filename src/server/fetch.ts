@@ -0,0 +1,40 @@
+import { withSettlementHeader, type X402PaidRequest } from './handler';
+import { evaluatePaymentRequest, type X402MiddlewareOptions } from './middleware';
+
+export type X402FetchHandler = (
+  request: Request,
+  paid: X402PaidRequest | null,
+) => Response | Promise<Response>;
+
+export function withX402Fetch(handler: X402FetchHandler, options: X402MiddlewareOptions) {
+  return async (request: Request): Promise<Response> => {
+    const result = await evaluatePaymentRequest(request, options);
+    if (result.status === 'rejected') return result.response;
+    if (result.status === 'free') return handler(request, null);
+
+    const response = await handler(request, result.paid);
+    return withSettlementHeader(response, result.paid.settlement, options.x402Version);
+  };
+}
+
+// Structural subset of Hono's `Context`.
+export interface X402HonoContext {
+  req: { raw: Request };
+  res: Response;
+  set(key: 'x402', value: X402PaidRequest): void;
+}
+
+export function x402Hono(options: X402MiddlewareOptions) {
+  return async (c: X402HonoContext, next: () => Promise<void>): Promise<Response | void> => {
+    const result = await evaluatePaymentRequest(c.req.raw, options);
+    if (result.status === 'rejected') return result.response;
+    if (result.status === 'free') {
+      await next();
+      return;
+    }
+
+    c.set('x402', result.paid);
+    await next();
+    c.res = withSettlementHeader(c.res, result.paid.settlement, options.x402Version);
+  };
+}
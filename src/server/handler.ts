@@ -0,0 +1,255 @@
+import type {
+  X402PaymentPayload,
+  X402PaymentRequirement,
+  X402PaymentRequired,
+  X402SettlementResponse,
+} from '../types';
+import type { X402SchemeRegistry } from '../payment-schemes';
+import { X402FacilitatorError } from '../errors';
+import { encodeBase64Json } from '../utils';
+import {
+  DEFAULT_X402_VERSION,
+  encodePaymentRequired,
+  getVersionCodec,
+} from '../x402-versions';
+import type { X402FacilitatorClient } from './facilitator';
+import {
+  createMemoryNonceStore,
+  getNonceKey,
+  type X402NonceRecord,
+  type X402NonceStore,
+} from './nonce-store';
+import {
+  decodePaymentSignature,
+  getPaymentSignatureHeader,
+  verifyPaymentSignature,
+} from './verify';
+
+export interface X402PaidRequest {
+  payer: string;
+  payment: X402PaymentPayload;
+  requirement: X402PaymentRequirement;
+  settlement: X402SettlementResponse | null;
+  replayed: boolean;
+}
+
+export interface X402PaymentGateOptions {
+  accepts: X402PaymentRequirement[];
+  x402Version?: number;
+  facilitator?: X402FacilitatorClient;
+  schemes?: X402SchemeRegistry;
+  // Defaults to an in-process memory store; `null` turns replay protection off.
+  nonceStore?: X402NonceStore | null;
+}
+
+// Nonce keys are unique per authorization, so every gate without its own store can share one.
+const defaultNonceStore = createMemoryNonceStore();
+
+export type X402PaymentGateResult =
+  | { ok: true; paid: X402PaidRequest }
+  | { ok: false; response: Response };
+
+function jsonResponse(body: unknown, status: number, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+export function buildPaymentRequiredResponse(
+  paymentRequired: X402PaymentRequired,
+  options: { message?: string; reasons?: string[] } = {},
+): Response {
+  const { message = 'Payment Required', reasons } = options;
+  const codec = getVersionCodec(paymentRequired.x402Version);
+  // Clients show `error` to explain why a signed payment was turned away.
+  const encoded = encodePaymentRequired(
+    reasons?.length ? { ...paymentRequired, error: reasons.join(', ') } : paymentRequired,
+  );
+  return jsonResponse(
+    {
+      status: 402,
+      message,
+      ...(reasons ? { reasons } : {}),
+      paymentRequired: encoded,
+    },
+    402,
+    { [codec.paymentRequiredHeader]: encodeBase64Json(encoded) },
+  );
+}
+
+export function withSettlementHeader(
+  response: Response,
+  settlement: X402SettlementResponse | null,
+  x402Version = DEFAULT_X402_VERSION,
+): Response {
+  if (!settlement) return response;
+  // Copy so responses with immutable headers (e.g. from fetch) can be extended.
+  const headers = new Headers(response.headers);
+  headers.set(getVersionCodec(x402Version).paymentResponseHeader, encodeBase64Json(settlement));
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
+
+// Signature recovery fails when the payment was signed for another requirement's asset.
+const SIGNATURE_REASONS = new Set(['invalid_payload', 'missing_domain', 'signer_mismatch']);
+
+// The payload names only the scheme and network, so offers that share both (e.g. USDC and EURC
+// on one chain) are told apart by the requirement the signature verifies against.
+async function matchRequirement(
+  accepts: X402PaymentRequirement[],
+  payment: X402PaymentPayload,
+  schemes?: X402SchemeRegistry,
+): Promise<X402PaymentRequirement | null> {
+  const candidates = accepts.filter(
+    (accept) => accept.scheme === payment.scheme && accept.network === payment.network,
+  );
+  if (candidates.length <= 1) return candidates[0] ?? null;
+  for (const candidate of candidates) {
+    const { reasons } = await verifyPaymentSignature({ payment, requirement: candidate, schemes });
+    if (!reasons.some((reason) => SIGNATURE_REASONS.has(reason))) return candidate;
+  }
+  return null;
+}
+
+async function settlePayment(
+  payment: X402PaymentPayload,
+  requirement: X402PaymentRequirement,
+  options: X402PaymentGateOptions,
+  rejected: (reasons: string[]) => X402PaymentGateResult,
+): Promise<X402PaymentGateResult> {
+  const { facilitator, schemes } = options;
+
+  if (!facilitator) {
+    const verification = await verifyPaymentSignature({ payment, requirement, schemes });
+    if (!verification.isValid || !verification.payer) {
+      return rejected(verification.reasons);
+    }
+    return {
+      ok: true,
+      paid: {
+        payer: verification.payer,
+        payment,
+        requirement,
+        settlement: null,
+        replayed: false,
+      },
+    };
+  }
+
+  try {
+    const verification = await facilitator.verify(payment, requirement);
+    if (!verification.isValid) {
+      return rejected([verification.invalidReason ?? 'invalid_payload']);
+    }
+
+    const settlement = await facilitator.settle(payment, requirement);
+    if (!settlement.success) {
+      return rejected([settlement.errorReason ?? 'settlement_failed']);
+    }
+
+    const payer = settlement.payer ?? verification.payer ?? payment.payload.authorization?.from;
+    if (!payer) return rejected(['invalid_payload']);
+    return { ok: true, paid: { payer, payment, requirement, settlement, replayed: false } };
+  } catch (error: unknown) {
+    if (!(error instanceof X402FacilitatorError)) throw error;
+    return {
+      ok: false,
+      response: jsonResponse({ status: 502, message: error.message }, 502),
+    };
+  }
+}
+
+async function settleOnce(
+  payment: X402PaymentPayload,
+  requirement: X402PaymentRequirement,
+  options: X402PaymentGateOptions & { nonceStore: X402NonceStore },
+  rejected: (reasons: string[]) => X402PaymentGateResult,
+): Promise<X402PaymentGateResult> {
+  const { nonceStore, schemes } = options;
+  const verification = await verifyPaymentSignature({ payment, requirement, schemes });
+  if (!verification.isValid || !verification.authorization) {
+    return rejected(verification.reasons);
+  }
+
+  const { from, nonce, validBefore } = verification.authorization;
+  const key = getNonceKey(from, nonce);
+  const signature = payment.payload.signature.toLowerCase();
+  await nonceStore.prune(Math.floor(Date.now() / 1000));
+
+  const existing = await nonceStore.get(key);
+  if (existing) {
+    if (existing.signature !== signature) return rejected(['nonce_already_used']);
+    if (existing.status === 'settled' && existing.paid) {
+      return { ok: true, paid: { ...existing.paid, replayed: true } };
+    }
+    return rejected(['payment_in_progress']);
+  }
+
+  const record: X402NonceRecord = {
+    from,
+    nonce,
+    signature,
+    status: 'pending',
+    expiresAt: Number(validBefore),
+    paid: null,
+  };
+  if (!(await nonceStore.insert(key, record))) {
+    return rejected(['payment_in_progress']);
+  }
+
+  let result: X402PaymentGateResult;
+  try {
+    result = await settlePayment(payment, requirement, options, rejected);
+  } catch (error: unknown) {
+    await nonceStore.delete(key);
+    throw error;
+  }
+
+  if (result.ok) {
+    await nonceStore.update(key, { ...record, status: 'settled', paid: result.paid });
+  } else {
+    // Nothing was charged, so the authorization may be submitted again.
+    await nonceStore.delete(key);
+  }
+  return result;
+}
+
+export async function processPaymentRequest(
+  headers: Headers,
+  options: X402PaymentGateOptions,
+): Promise<X402PaymentGateResult> {
+  const { accepts, x402Version = DEFAULT_X402_VERSION, nonceStore = defaultNonceStore } = options;
+  const paymentRequired: X402PaymentRequired = { x402Version, accepts };
+  const codec = getVersionCodec(x402Version);
+
+  const header = getPaymentSignatureHeader(headers);
+  if (!header) {
+    return { ok: false, response: buildPaymentRequiredResponse(paymentRequired) };
+  }
+
+  const rejected = (reasons: string[]): X402PaymentGateResult => ({
+    ok: false,
+    response: buildPaymentRequiredResponse(paymentRequired, {
+      message: `Payment verification failed: ${reasons.join(', ')}`,
+      reasons,
+    }),
+  });
+
+  const payment = decodePaymentSignature(header);
+  if (!payment || accepts.length === 0) return rejected(['invalid_payload']);
+  if (payment.x402Version !== codec.version) return rejected(['unsupported_version']);
+
+  const requirement = await matchRequirement(
+    accepts,
+    { ...payment, network: codec.fromWireNetwork(payment.network) },
+    options.schemes,
+  );
+  if (!requirement) return rejected(['no_matching_requirement']);
+  return nonceStore
+    ? settleOnce(payment, requirement, { ...options, nonceStore }, rejected)
+    : settlePayment(payment, requirement, options, rejected);
+}
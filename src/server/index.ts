@@ -0,0 +1,89 @@
+export {
+  decodePaymentSignature,
+  getPaymentSignatureHeader,
+  verifyPaymentSignature,
+} from './verify';
+export {
+  createFacilitatorClient,
+  createMockFacilitator,
+  MOCK_FACILITATOR_URL,
+  type X402FacilitatorClient,
+  type X402FacilitatorClientOptions,
+  type X402MockFacilitator,
+  type X402MockFacilitatorOptions,
+} from './facilitator';
+export {
+  buildPaymentRequiredResponse,
+  processPaymentRequest,
+  withSettlementHeader,
+  type X402PaidRequest,
+  type X402PaymentGateOptions,
+  type X402PaymentGateResult,
+} from './handler';
+export { withX402, type X402RouteHandler } from './next';
+export {
+  createFileNonceStore,
+  createMemoryNonceStore,
+  createSqliteNonceStore,
+  getNonceKey,
+  type X402NonceDatabase,
+  type X402NonceFileSystem,
+  type X402NonceRecord,
+  type X402NonceStore,
+} from './nonce-store';
+export {
+  evaluatePaymentRequest,
+  getRequestPath,
+  matchPriceRule,
+  type X402MiddlewareOptions,
+  type X402MiddlewareResult,
+  type X402PriceRule,
+} from './middleware';
+export {
+  createX402NodeMiddleware,
+  withX402Node,
+  x402Express,
+  type X402NodeNext,
+  type X402NodeRequest,
+  type X402NodeResponse,
+} from './node';
+export {
+  withX402Fetch,
+  x402Hono,
+  type X402FetchHandler,
+  type X402HonoContext,
+} from './fetch';
+export { X402FacilitatorError, X402PaywallError, X402UnsupportedVersionError } from '../errors';
+export {
+  decodePaymentRequired,
+  DEFAULT_X402_VERSION,
+  encodePaymentRequired,
+  getVersionCodec,
+  x402V1Codec,
+  x402V2Codec,
+  X402_VERSION_CODECS,
+  type X402VersionCodec,
+} from '../x402-versions';
+export {
+  createSchemeRegistry,
+  defaultSchemeRegistry,
+  DEFAULT_SCHEME_HANDLERS,
+  eip2612PermitScheme,
+  exactEip3009Scheme,
+  permit2Scheme,
+  type X402SchemeHandler,
+  type X402SchemeRegistry,
+} from '../payment-schemes';
+export type {
+  X402FacilitatorRequest,
+  X402FacilitatorSupportedResponse,
+  X402FacilitatorVerifyResponse,
+  X402PaymentPayload,
+  X402PaymentRequirement,
+  X402PaymentRequired,
+  X402SettlementResponse,
+  X402SupportedKind,
+  X402TransferAuthorization,
+  X402VerificationFailureReason,
+  X402VerificationResult,
+} from '../types';
@@ -0,0 +1,85 @@
+import type { X402PaymentRequirement } from '../types';
+import {
+  processPaymentRequest,
+  type X402PaidRequest,
+  type X402PaymentGateOptions,
+} from './handler';
+
+export interface X402PriceRule {
+  path: string | RegExp | ((path: string) => boolean);
+  method?: string | string[];
+  accepts: X402PaymentRequirement[];
+}
+
+export interface X402MiddlewareOptions extends Omit<X402PaymentGateOptions, 'accepts'> {
+  routes: X402PriceRule[];
+}
+
+export type X402MiddlewareResult =
+  | { status: 'free' }
+  | { status: 'paid'; paid: X402PaidRequest }
+  | { status: 'rejected'; response: Response };
+
+const patternCache = new Map<string, RegExp>();
+
+// Supports exact paths, `:param` segments and a trailing or inner `*` wildcard.
+function compilePathPattern(pattern: string): RegExp {
+  const cached = patternCache.get(pattern);
+  if (cached) return cached;
+  const source = pattern
+    .split('/')
+    .map((segment) => {
+      if (segment === '*') return '.*';
+      if (segment.startsWith(':')) return '[^/]+';
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('/');
+  const regex = new RegExp(`^${source}/?$`);
+  patternCache.set(pattern, regex);
+  return regex;
+}
+
+function matchesPath(rule: X402PriceRule, path: string): boolean {
+  if (typeof rule.path === 'function') return rule.path(path);
+  if (rule.path instanceof RegExp) return rule.path.test(path);
+  return compilePathPattern(rule.path).test(path);
+}
+
+function matchesMethod(rule: X402PriceRule, method: string): boolean {
+  if (!rule.method) return true;
+  const methods = Array.isArray(rule.method) ? rule.method : [rule.method];
+  return methods.some((entry) => entry.toUpperCase() === method.toUpperCase());
+}
+
+export function getRequestPath(url: string): string {
+  try {
+    return new URL(url, 'http://localhost').pathname;
+  } catch {
+    return url.split('?')[0] || '/';
+  }
+}
+
+export function matchPriceRule(
+  routes: X402PriceRule[],
+  method: string,
+  path: string,
+): X402PriceRule | null {
+  return routes.find((rule) => matchesMethod(rule, method) && matchesPath(rule, path)) ?? null;
+}
+
+export async function evaluatePaymentRequest(
+  request: { method: string; url: string; headers: Headers },
+  options: X402MiddlewareOptions,
+): Promise<X402MiddlewareResult> {
+  const { routes, ...gateOptions } = options;
+  const rule = matchPriceRule(routes, request.method, getRequestPath(request.url));
+  if (!rule) return { status: 'free' };
+
+  const result = await processPaymentRequest(request.headers, {
+    ...gateOptions,
+    accepts: rule.accepts,
+  });
+  return result.ok
+    ? { status: 'paid', paid: result.paid }
+    : { status: 'rejected', response: result.response };
+}
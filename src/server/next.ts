@@ -0,0 +1,25 @@
+import {
+  processPaymentRequest,
+  withSettlementHeader,
+  type X402PaidRequest,
+  type X402PaymentGateOptions,
+} from './handler';
+
+export type X402RouteHandler<TContext> = (
+  request: Request,
+  paid: X402PaidRequest,
+  context: TContext,
+) => Response | Promise<Response>;
+
+export function withX402<TContext = unknown>(
+  handler: X402RouteHandler<TContext>,
+  options: X402PaymentGateOptions,
+): (request: Request, context: TContext) => Promise<Response> {
+  return async (request, context) => {
+    const result = await processPaymentRequest(request.headers, options);
+    if (!result.ok) return result.response;
+
+    const response = await handler(request, result.paid, context);
+    return withSettlementHeader(response, result.paid.settlement, options.x402Version);
+  };
+}
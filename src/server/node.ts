@@ -0,0 +1,101 @@
+import { encodeBase64Json } from '../utils';
+import { getVersionCodec } from '../x402-versions';
+import type { X402PaidRequest } from './handler';
+import { evaluatePaymentRequest, type X402MiddlewareOptions } from './middleware';
+
+// Structural subsets of `http.IncomingMessage` / `http.ServerResponse`, so the
+// adapter works with Node, Express and Connect without depending on their types.
+export interface X402NodeRequest {
+  method?: string;
+  url?: string;
+  originalUrl?: string;
+  headers: Record<string, string | string[] | undefined>;
+  x402?: X402PaidRequest;
+}
+
+export interface X402NodeResponse {
+  statusCode: number;
+  headersSent?: boolean;
+  setHeader(name: string, value: string): unknown;
+  end(body?: string): unknown;
+}
+
+export type X402NodeNext = (error?: unknown) => void;
+
+function toHeaders(headers: X402NodeRequest['headers']): Headers {
+  const result = new Headers();
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === undefined) continue;
+    result.set(name, Array.isArray(value) ? value.join(', ') : value);
+  }
+  return result;
+}
+
+async function writeResponse(res: X402NodeResponse, response: Response) {
+  const body = await response.text();
+  res.statusCode = response.status;
+  response.headers.forEach((value, name) => {
+    res.setHeader(name, value);
+  });
+  res.end(body);
+}
+
+export function createX402NodeMiddleware(options: X402MiddlewareOptions) {
+  return (req: X402NodeRequest, res: X402NodeResponse, next: X402NodeNext) => {
+    evaluatePaymentRequest(
+      {
+        method: req.method ?? 'GET',
+        url: req.originalUrl ?? req.url ?? '/',
+        headers: toHeaders(req.headers),
+      },
+      options,
+    )
+      .then(async (result) => {
+        if (result.status === 'rejected') {
+          await writeResponse(res, result.response);
+          return;
+        }
+        if (result.status === 'paid') {
+          req.x402 = result.paid;
+          if (result.paid.settlement) {
+            res.setHeader(
+              getVersionCodec(options.x402Version ?? result.paid.payment.x402Version)
+                .paymentResponseHeader,
+              encodeBase64Json(result.paid.settlement),
+            );
+          }
+        }
+        next();
+      })
+      .catch(next);
+  };
+}
+
+export const x402Express = createX402NodeMiddleware;
+
+export function withX402Node<TRequest extends X402NodeRequest, TResponse extends X402NodeResponse>(
+  listener: (req: TRequest, res: TResponse) => void | Promise<void>,
+  options: X402MiddlewareOptions,
+) {
+  const middleware = createX402NodeMiddleware(options);
+  return (req: TRequest, res: TResponse) => {
+    const fail = (message: string) => {
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      res.statusCode = 500;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ status: 500, message }));
+    };
+    middleware(req, res, (error) => {
+      if (error) {
+        fail('Payment processing failed');
+        return;
+      }
+      Promise.resolve()
+        .then(() => listener(req, res))
+        .catch(() => fail('Internal Server Error'));
+    });
+  };
+}
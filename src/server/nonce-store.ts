@@ -0,0 +1,179 @@
+import type { X402PaidRequest } from './handler';
+
+type MaybePromise<T> = T | Promise<T>;
+
+export interface X402NonceRecord {
+  from: string;
+  nonce: string;
+  signature: string;
+  status: 'pending' | 'settled';
+  expiresAt: number;
+  paid: X402PaidRequest | null;
+}
+
+export interface X402NonceStore {
+  get: (key: string) => MaybePromise<X402NonceRecord | null>;
+  // Must be atomic: resolves to false when the key is already taken.
+  insert: (key: string, record: X402NonceRecord) => MaybePromise<boolean>;
+  update: (key: string, record: X402NonceRecord) => MaybePromise<void>;
+  delete: (key: string) => MaybePromise<void>;
+  prune: (now: number) => MaybePromise<void>;
+}
+
+export function getNonceKey(from: string, nonce: string): string {
+  return `${from.toLowerCase()}:${nonce.toLowerCase()}`;
+}
+
+export function createMemoryNonceStore(): X402NonceStore {
+  const records = new Map<string, X402NonceRecord>();
+  return {
+    get: (key) => records.get(key) ?? null,
+    insert: (key, record) => {
+      if (records.has(key)) return false;
+      records.set(key, record);
+      return true;
+    },
+    update: (key, record) => {
+      records.set(key, record);
+    },
+    delete: (key) => {
+      records.delete(key);
+    },
+    prune: (now) => {
+      for (const [key, record] of records) {
+        if (record.expiresAt <= now) records.delete(key);
+      }
+    },
+  };
+}
+
+// Structural subset of `node:fs/promises`.
+export interface X402NonceFileSystem {
+  readFile: (path: string, encoding: 'utf8') => Promise<string>;
+  writeFile: (path: string, data: string) => Promise<void>;
+  rename: (from: string, to: string) => Promise<void>;
+}
+
+// For a single process: writes are serialized here, not across processes. Use the SQLite store
+// when several workers share replay protection.
+export function createFileNonceStore(params: {
+  path: string;
+  fs: X402NonceFileSystem;
+}): X402NonceStore {
+  const { path, fs } = params;
+  // Serializes read-modify-write cycles within this process.
+  let queue: Promise<unknown> = Promise.resolve();
+
+  // Read on every task so entries written by another process are kept.
+  async function load(): Promise<Record<string, X402NonceRecord>> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(path, 'utf8');
+    } catch (error: unknown) {
+      if ((error as { code?: unknown } | null)?.code === 'ENOENT') return {};
+      throw error;
+    }
+    // A corrupt file must not silently reset the replay history.
+    const parsed = JSON.parse(contents) as unknown;
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error(`Invalid nonce store file: ${path}`);
+    }
+    return parsed as Record<string, X402NonceRecord>;
+  }
+
+  async function persist(entries: Record<string, X402NonceRecord>) {
+    const tempPath = `${path}.${crypto.randomUUID()}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(entries));
+    await fs.rename(tempPath, path);
+  }
+
+  function enqueue<T>(task: (entries: Record<string, X402NonceRecord>) => Promise<T>) {
+    const next = queue.then(async () => task(await load()));
+    queue = next.catch(() => undefined);
+    return next;
+  }
+
+  return {
+    get: (key) => enqueue(async (entries) => entries[key] ?? null),
+    insert: (key, record) =>
+      enqueue(async (entries) => {
+        if (entries[key]) return false;
+        entries[key] = record;
+        await persist(entries);
+        return true;
+      }),
+    update: (key, record) =>
+      enqueue(async (entries) => {
+        entries[key] = record;
+        await persist(entries);
+      }),
+    delete: (key) =>
+      enqueue(async (entries) => {
+        if (!entries[key]) return;
+        delete entries[key];
+        await persist(entries);
+      }),
+    prune: (now) =>
+      enqueue(async (entries) => {
+        const expired = Object.keys(entries).filter((key) => entries[key].expiresAt <= now);
+        if (expired.length === 0) return;
+        for (const key of expired) delete entries[key];
+        await persist(entries);
+      }),
+  };
+}
+
+// Structural subset shared by `better-sqlite3` and `node:sqlite`.
+export interface X402NonceDatabase {
+  exec: (sql: string) => unknown;
+  prepare: (sql: string) => {
+    run: (...params: (string | number)[]) => { changes: number | bigint };
+    get: (...params: (string | number)[]) => unknown;
+  };
+}
+
+export function createSqliteNonceStore(params: {
+  db: X402NonceDatabase;
+  table?: string;
+}): X402NonceStore {
+  const { db, table = 'x402_nonces' } = params;
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+    throw new Error(`Invalid nonce table name: ${table}`);
+  }
+
+  db.exec(
+    `CREATE TABLE IF NOT EXISTS ${table} (key TEXT PRIMARY KEY, record TEXT NOT NULL, expires_at INTEGER NOT NULL)`,
+  );
+  const selectRecord = db.prepare(`SELECT record FROM ${table} WHERE key = ?`);
+  const insertRecord = db.prepare(
+    `INSERT OR IGNORE INTO ${table} (key, record, expires_at) VALUES (?, ?, ?)`,
+  );
+  const updateRecord = db.prepare(
+    `UPDATE ${table} SET record = ?, expires_at = ? WHERE key = ?`,
+  );
+  const deleteRecord = db.prepare(`DELETE FROM ${table} WHERE key = ?`);
+  const pruneRecords = db.prepare(`DELETE FROM ${table} WHERE expires_at <= ?`);
+
+  return {
+    get: (key) => {
+      const row = selectRecord.get(key) as { record?: string } | undefined;
+      if (!row?.record) return null;
+      try {
+        return JSON.parse(row.record) as X402NonceRecord;
+      } catch {
+        return null;
+      }
+    },
+    insert: (key, record) =>
+      Number(insertRecord.run(key, JSON.stringify(record), record.expiresAt).changes) > 0,
+    update: (key, record) => {
+      updateRecord.run(JSON.stringify(record), record.expiresAt, key);
+    },
+    delete: (key) => {
+      deleteRecord.run(key);
+    },
+    prune: (now) => {
+      pruneRecords.run(now);
+    },
+  };
+}
@@ -0,0 +1,143 @@
+import { getAddress, isAddress, recoverTypedDataAddress, type Address } from 'viem';
+import { PAYMENT_SIGNATURE_HEADERS } from '../constants';
+import type {
+  X402PaymentPayload,
+  X402PaymentRequirement,
+  X402VerificationFailureReason,
+  X402VerificationResult,
+} from '../types';
+import { getRequiredAmount, getRequirementDomain } from '../paywall-helpers';
+import { defaultSchemeRegistry, type X402SchemeRegistry } from '../payment-schemes';
+import { decodeBase64Json, parseNetworkChainId } from '../utils';
+import { X402_VERSION_CODECS } from '../x402-versions';
+
+const SIGNATURE_PATTERN = /^0x[0-9a-fA-F]+$/;
+
+export function getPaymentSignatureHeader(headers: Headers): string | null {
+  for (const name of PAYMENT_SIGNATURE_HEADERS) {
+    const value = headers.get(name);
+    if (value) return value;
+  }
+  return null;
+}
+
+function isPaymentPayload(value: unknown): value is X402PaymentPayload {
+  if (!value || typeof value !== 'object') return false;
+  const payment = value as Partial<X402PaymentPayload>;
+  if (typeof payment.x402Version !== 'number') return false;
+  if (typeof payment.scheme !== 'string' || typeof payment.network !== 'string') {
+    return false;
+  }
+  const signature = payment.payload?.signature;
+  return typeof signature === 'string' && SIGNATURE_PATTERN.test(signature);
+}
+
+export function decodePaymentSignature(value?: string | null): X402PaymentPayload | null {
+  const decoded = decodeBase64Json<unknown>(value);
+  return isPaymentPayload(decoded) ? decoded : null;
+}
+
+export async function verifyPaymentSignature(params: {
+  payment: string | X402PaymentPayload | null | undefined;
+  requirement: X402PaymentRequirement;
+  schemes?: X402SchemeRegistry;
+  now?: number;
+}): Promise<X402VerificationResult> {
+  const { requirement, schemes = defaultSchemeRegistry } = params;
+  const payment =
+    typeof params.payment === 'string'
+      ? decodePaymentSignature(params.payment)
+      : isPaymentPayload(params.payment)
+        ? params.payment
+        : null;
+
+  if (!payment) {
+    return {
+      isValid: false,
+      payer: null,
+      payment: null,
+      authorization: null,
+      reasons: ['invalid_payload'],
+    };
+  }
+
+  const reasons: X402VerificationFailureReason[] = [];
+
+  const codec = X402_VERSION_CODECS[payment.x402Version];
+  if (!codec) {
+    reasons.push('unsupported_version');
+  }
+  const paymentNetwork = codec ? codec.fromWireNetwork(payment.network) : payment.network;
+
+  const handler = schemes.resolve(requirement);
+  if (!handler || payment.scheme !== requirement.scheme) {
+    reasons.push('unsupported_scheme');
+  }
+
+  const chainId = parseNetworkChainId(requirement.network);
+  if (!chainId) {
+    reasons.push('unsupported_network');
+  } else if (paymentNetwork !== requirement.network) {
+    reasons.push('network_mismatch');
+  }
+
+  if (!isAddress(requirement.asset)) {
+    reasons.push('invalid_asset');
+  }
+
+  const parsed =
+    handler && chainId ? handler.parsePayload(payment.payload, requirement, chainId) : null;
+  if (!parsed) {
+    if (handler && chainId) {
+      const missingDomain = handler.usesRequirementDomain && !getRequirementDomain(requirement);
+      reasons.push(missingDomain ? 'missing_domain' : 'invalid_payload');
+    }
+    return { isValid: false, payer: null, payment, authorization: null, reasons };
+  }
+
+  const { authorization } = parsed;
+  const from = getAddress(authorization.from);
+  const recipient = handler?.getRecipient(requirement);
+
+  if (
+    !recipient ||
+    !isAddress(recipient) ||
+    getAddress(authorization.to) !== getAddress(recipient)
+  ) {
+    reasons.push('recipient_mismatch');
+  }
+
+  const required = getRequiredAmount(requirement);
+  if (required === null || BigInt(authorization.value) < required) {
+    reasons.push('insufficient_amount');
+  }
+
+  const now = BigInt(params.now ?? Math.floor(Date.now() / 1000));
+  if (now < BigInt(authorization.validAfter)) {
+    reasons.push('not_yet_valid');
+  }
+  if (now >= BigInt(authorization.validBefore)) {
+    reasons.push('expired');
+  }
+
+  let signer: Address | null = null;
+  try {
+    signer = await recoverTypedDataAddress({
+      ...parsed.typedData,
+      signature: parsed.signature,
+    });
+  } catch {
+    reasons.push('invalid_signature');
+  }
+  if (signer && signer !== from) {
+    reasons.push('signer_mismatch');
+  }
+
+  return {
+    isValid: reasons.length === 0,
+    payer: signer === from ? from : null,
+    payment,
+    authorization,
+    reasons,
+  };
+}
@@ -0,0 +1,34 @@
+import type { Chain, Hex, LocalAccount } from 'viem';
+import { createConfig, custom, type Config, type CreateConnectorFn } from 'wagmi';
+import { baseSepolia } from 'wagmi/chains';
+import { localKeyConnector, type LocalKeyConnectorFeatures } from './connector';
+import { createMockRpc, type X402MockRpcOptions } from './rpc';
+
+// Anvil's first default key: well known, never holds real funds.
+export const TEST_PRIVATE_KEY: Hex =
+  '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+export interface X402TestConfigOptions {
+  account?: Hex | LocalAccount;
+  chains?: readonly [Chain, ...Chain[]];
+  features?: LocalKeyConnectorFeatures;
+  rpc?: Omit<X402MockRpcOptions, 'chainId'>;
+  connectors?: CreateConnectorFn[];
+}
+
+// A wagmi config with the local-key connector and mock RPC transports for every chain.
+export function createX402TestConfig(options: X402TestConfigOptions = {}): Config {
+  const { account = TEST_PRIVATE_KEY, chains = [baseSepolia], features, rpc } = options;
+  return createConfig({
+    chains,
+    connectors: [localKeyConnector({ account, features, rpc }), ...(options.connectors ?? [])],
+    transports: Object.fromEntries(
+      chains.map((chain) => [
+        chain.id,
+        custom({ request: createMockRpc({ ...rpc, chainId: chain.id }) }),
+      ]),
+    ),
+    multiInjectedProviderDiscovery: false,
+    storage: null,
+  });
+}
@@ -0,0 +1,128 @@
+import {
+  createWalletClient,
+  custom,
+  getAddress,
+  numberToHex,
+  SwitchChainError,
+  UserRejectedRequestError,
+  type Hex,
+  type LocalAccount,
+} from 'viem';
+import { privateKeyToAccount, toAccount } from 'viem/accounts';
+import { ChainNotConfiguredError, createConnector } from 'wagmi';
+import { createMockRpc, type X402MockRpcOptions } from './rpc';
+
+export interface LocalKeyConnectorFeatures {
+  connectError?: boolean | Error;
+  switchChainError?: boolean | Error;
+  signTypedDataError?: boolean | Error;
+}
+
+export interface LocalKeyConnectorParameters {
+  // A hex private key or an existing viem local account.
+  account: Hex | LocalAccount;
+  features?: LocalKeyConnectorFeatures;
+  rpc?: X402MockRpcOptions;
+}
+
+function toFeatureError(feature: boolean | Error, message: string): Error {
+  return typeof feature === 'boolean'
+    ? new UserRejectedRequestError(new Error(message))
+    : feature;
+}
+
+localKeyConnector.type = 'localKey' as const;
+
+// A wagmi connector that signs EIP-712 payloads with a local key, so tests run without a wallet.
+export function localKeyConnector(parameters: LocalKeyConnectorParameters) {
+  const { features = {} } = parameters;
+  const local =
+    typeof parameters.account === 'string'
+      ? privateKeyToAccount(parameters.account)
+      : parameters.account;
+  const account = toAccount({
+    address: local.address,
+    signMessage: (args) => local.signMessage(args),
+    signTransaction: (transaction, options) => local.signTransaction(transaction, options),
+    async signTypedData(typedData) {
+      if (features.signTypedDataError) {
+        throw toFeatureError(features.signTypedDataError, 'Failed to sign typed data.');
+      }
+      return local.signTypedData(typedData);
+    },
+  });
+
+  let connected = false;
+  let connectedChainId: number;
+
+  return createConnector<{ request: ReturnType<typeof createMockRpc> }>((config) => {
+    const chainRpc = (chainId: number) => createMockRpc({ ...parameters.rpc, chainId });
+
+    return {
+      id: 'localKey',
+      name: 'Local Key Wallet',
+      type: localKeyConnector.type,
+      async setup() {
+        connectedChainId = config.chains[0].id;
+      },
+      async connect({ chainId, withCapabilities } = {}) {
+        if (features.connectError) {
+          throw toFeatureError(features.connectError, 'Failed to connect.');
+        }
+        if (chainId && chainId !== connectedChainId) {
+          await this.switchChain!({ chainId });
+        }
+        connected = true;
+        return {
+          accounts: (withCapabilities
+            ? [{ address: account.address, capabilities: {} }]
+            : [account.address]) as never,
+          chainId: connectedChainId,
+        };
+      },
+      async disconnect() {
+        connected = false;
+      },
+      async getAccounts() {
+        return connected ? [getAddress(account.address)] : [];
+      },
+      async getChainId() {
+        return connectedChainId;
+      },
+      async getProvider({ chainId } = {}) {
+        return { request: chainRpc(chainId ?? connectedChainId) };
+      },
+      async getClient({ chainId } = {}) {
+        const chain = config.chains.find((entry) => entry.id === (chainId ?? connectedChainId));
+        if (!chain) throw new ChainNotConfiguredError();
+        const provider = await this.getProvider({ chainId: chain.id });
+        return createWalletClient({ account, chain, transport: custom(provider) });
+      },
+      // The key is always available, so wagmi reconnects it whenever `reconnectOnMount` is on.
+      async isAuthorized() {
+        return true;
+      },
+      async switchChain({ chainId }) {
+        const chain = config.chains.find((entry) => entry.id === chainId);
+        if (!chain) throw new SwitchChainError(new ChainNotConfiguredError());
+        if (features.switchChainError) {
+          throw toFeatureError(features.switchChainError, 'Failed to switch chain.');
+        }
+        connectedChainId = chainId;
+        this.onChainChanged(numberToHex(chainId));
+        return chain;
+      },
+      onAccountsChanged(accounts) {
+        if (accounts.length === 0) this.onDisconnect();
+        else config.emitter.emit('change', { accounts: accounts.map((x) => getAddress(x)) });
+      },
+      onChainChanged(chain) {
+        config.emitter.emit('change', { chainId: Number(chain) });
+      },
+      async onDisconnect() {
+        config.emitter.emit('disconnect');
+        connected = false;
+      },
+    };
+  });
+}
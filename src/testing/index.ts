@@ -0,0 +1,22 @@
+export {
+  localKeyConnector,
+  type LocalKeyConnectorFeatures,
+  type LocalKeyConnectorParameters,
+} from './connector';
+export { createMockRpc, type X402MockRpcOptions, type X402MockToken } from './rpc';
+export { createX402TestConfig, TEST_PRIVATE_KEY, type X402TestConfigOptions } from './config';
+export {
+  createMockX402Server,
+  MOCK_SERVER_ORIGIN,
+  type X402MockReply,
+  type X402MockServer,
+  type X402MockServerOptions,
+} from './server';
+export {
+  renderPaywall,
+  waitFor,
+  X402TestProvider,
+  type RenderedPaywall,
+  type RenderPaywallOptions,
+  type X402TestProviderProps,
+} from './render';
@@ -0,0 +1,148 @@
+'use client';
+
+import React, { act, useState } from 'react';
+import { createRoot } from 'react-dom/client';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { WagmiProvider, type Config } from 'wagmi';
+import type { X402PaywallEvent, X402PaywallProps } from '../types';
+import type { X402PaywallError } from '../errors';
+import { X402Paywall } from '../Paywall';
+import { createX402TestConfig } from './config';
+
+export interface X402TestProviderProps {
+  config?: Config;
+  queryClient?: QueryClient;
+  // Start with the local-key wallet already connected.
+  connected?: boolean;
+  children?: React.ReactNode;
+}
+
+function createTestQueryClient() {
+  return new QueryClient({ defaultOptions: { queries: { retry: false } } });
+}
+
+// Wagmi and react-query providers for tests, e.g. as Testing Library's `wrapper`.
+export function X402TestProvider(props: X402TestProviderProps) {
+  const [config] = useState(() => props.config ?? createX402TestConfig());
+  const [queryClient] = useState(() => props.queryClient ?? createTestQueryClient());
+  return (
+    <QueryClientProvider client={queryClient}>
+      <WagmiProvider config={config} reconnectOnMount={props.connected ?? false}>
+        {props.children}
+      </WagmiProvider>
+    </QueryClientProvider>
+  );
+}
+
+export interface RenderPaywallOptions {
+  config?: Config;
+  connected?: boolean;
+  container?: HTMLElement;
+}
+
+export interface RenderedPaywall {
+  container: HTMLElement;
+  events: X402PaywallEvent[];
+  results: unknown[];
+  errors: X402PaywallError[];
+  click: (name: string | RegExp) => Promise<void>;
+  rerender: (props: X402PaywallProps) => Promise<void>;
+  unmount: () => Promise<void>;
+}
+
+export async function waitFor<T>(
+  assertion: () => T,
+  options: { timeout?: number; interval?: number } = {},
+): Promise<T> {
+  const { timeout = 2000, interval = 20 } = options;
+  const deadline = Date.now() + timeout;
+  for (;;) {
+    try {
+      return assertion();
+    } catch (error: unknown) {
+      if (Date.now() >= deadline) throw error;
+    }
+    await act(() => new Promise((resolve) => setTimeout(resolve, interval)));
+  }
+}
+
+function findButton(container: HTMLElement, name: string | RegExp): HTMLButtonElement {
+  const buttons = Array.from(container.querySelectorAll('button'));
+  const button = buttons.find((entry) => {
+    const text = entry.textContent?.trim() ?? '';
+    return typeof name === 'string' ? text === name : name.test(text);
+  });
+  if (!button) {
+    const labels = buttons.map((entry) => `"${entry.textContent?.trim()}"`).join(', ');
+    throw new Error(`No button named ${String(name)} (found ${labels || 'none'}).`);
+  }
+  if (button.disabled) throw new Error(`Button ${String(name)} is disabled.`);
+  return button;
+}
+
+// Mounts `X402Paywall` with the test providers and records its callbacks for assertions.
+export async function renderPaywall(
+  props: X402PaywallProps,
+  options: RenderPaywallOptions = {},
+): Promise<RenderedPaywall> {
+  const globals = globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean };
+  globals.IS_REACT_ACT_ENVIRONMENT ??= true;
+
+  const config = options.config ?? createX402TestConfig();
+  const queryClient = createTestQueryClient();
+  const container = options.container ?? document.body.appendChild(document.createElement('div'));
+  const root = createRoot(container);
+  const events: X402PaywallEvent[] = [];
+  const results: unknown[] = [];
+  const errors: X402PaywallError[] = [];
+
+  const render = (current: X402PaywallProps) =>
+    act(async () => {
+      root.render(
+        <X402TestProvider
+          config={config}
+          queryClient={queryClient}
+          connected={options.connected}
+        >
+          <X402Paywall
+            {...current}
+            onEvent={(event) => {
+              events.push(event);
+              current.onEvent?.(event);
+            }}
+            onSuccess={(result, context) => {
+              results.push(result);
+              current.onSuccess?.(result, context);
+            }}
+            onError={(error) => {
+              errors.push(error);
+              current.onError?.(error);
+            }}
+          />
+        </X402TestProvider>,
+      );
+    });
+
+  await render(props);
+
+  return {
+    container,
+    events,
+    results,
+    errors,
+    // Waits for the button to appear and become enabled before clicking it.
+    async click(name) {
+      const button = await waitFor(() => findButton(container, name));
+      await act(async () => {
+        button.click();
+      });
+    },
+    rerender: render,
+    async unmount() {
+      await act(async () => {
+        root.unmount();
+      });
+      if (!options.container) container.remove();
+    },
+  };
+}
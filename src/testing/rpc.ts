@@ -0,0 +1,108 @@
+import {
+  decodeFunctionData,
+  encodeFunctionResult,
+  erc20Abi,
+  multicall3Abi,
+  numberToHex,
+  parseAbi,
+  type Hex,
+} from 'viem';
+
+export interface X402MockToken {
+  decimals?: number;
+  symbol?: string;
+  name?: string;
+  // Balance of every holder that has no entry in `balances`.
+  balance?: bigint;
+  balances?: Record<string, bigint>;
+}
+
+export interface X402MockRpcOptions {
+  chainId?: number;
+  // Keyed by token address; unknown tokens behave like a 6-decimal USDC.
+  tokens?: Record<string, X402MockToken>;
+  defaultBalance?: bigint;
+}
+
+type RpcRequest = { method: string; params?: unknown };
+
+const DEFAULT_MOCK_BALANCE = 1_000_000_000n;
+
+const MOCK_TOKEN_ABI = [
+  ...erc20Abi,
+  ...parseAbi(['function nonces(address owner) view returns (uint256)']),
+];
+
+function findToken(tokens: Record<string, X402MockToken>, address: string) {
+  const key = Object.keys(tokens).find((entry) => entry.toLowerCase() === address.toLowerCase());
+  return key ? tokens[key] : {};
+}
+
+function callToken(options: X402MockRpcOptions, to: string, data: Hex): Hex {
+  const token = findToken(options.tokens ?? {}, to);
+  const { functionName, args } = decodeFunctionData({ abi: MOCK_TOKEN_ABI, data });
+  const encode = (result: unknown) =>
+    encodeFunctionResult({ abi: MOCK_TOKEN_ABI, functionName, result } as Parameters<
+      typeof encodeFunctionResult
+    >[0]);
+
+  switch (functionName) {
+    case 'balanceOf': {
+      const holder = String(args[0]).toLowerCase();
+      const entry = Object.entries(token.balances ?? {}).find(
+        ([address]) => address.toLowerCase() === holder,
+      );
+      return encode(entry?.[1] ?? token.balance ?? options.defaultBalance ?? DEFAULT_MOCK_BALANCE);
+    }
+    case 'decimals':
+      return encode(token.decimals ?? 6);
+    case 'symbol':
+      return encode(token.symbol ?? 'USDC');
+    case 'name':
+      return encode(token.name ?? 'USD Coin');
+    case 'nonces':
+    case 'allowance':
+      return encode(0n);
+    default:
+      throw new Error(`execution reverted: ${functionName} is not mocked.`);
+  }
+}
+
+function call(options: X402MockRpcOptions, to: string, data: Hex): Hex {
+  if (!data.startsWith('0x82ad56cb')) return callToken(options, to, data);
+  // Multicall3 `aggregate3`, used by wagmi to batch balance reads.
+  const { args } = decodeFunctionData({ abi: multicall3Abi, data });
+  const calls = args[0] as readonly { target: string; callData: Hex }[];
+  const results = calls.map(({ target, callData }) => {
+    try {
+      return { success: true, returnData: callToken(options, target, callData) };
+    } catch {
+      return { success: false, returnData: '0x' as Hex };
+    }
+  });
+  return encodeFunctionResult({ abi: multicall3Abi, functionName: 'aggregate3', result: results });
+}
+
+// An EIP-1193 `request` answering the reads the paywall makes, so no live RPC is needed.
+export function createMockRpc(options: X402MockRpcOptions = {}) {
+  return async ({ method, params }: RpcRequest): Promise<unknown> => {
+    switch (method) {
+      case 'eth_chainId':
+        return numberToHex(options.chainId ?? 1);
+      case 'net_version':
+        return String(options.chainId ?? 1);
+      case 'eth_blockNumber':
+        return '0x1';
+      case 'eth_getBalance':
+        return '0x0';
+      case 'eth_getCode':
+        return '0x';
+      case 'eth_call': {
+        const [{ to, data }] = params as [{ to: string; data: Hex }];
+        return call(options, to, data);
+      }
+      default:
+        throw new Error(`${method} is not supported by the mock RPC.`);
+    }
+  };
+}
@@ -0,0 +1,132 @@
+import type { X402PaymentRequirement, X402SettlementResponse } from '../types';
+import type { X402SchemeRegistry } from '../payment-schemes';
+import { DEFAULT_X402_VERSION } from '../x402-versions';
+import { createMockFacilitator } from '../server/facilitator';
+import {
+  processPaymentRequest,
+  withSettlementHeader,
+  type X402PaidRequest,
+} from '../server/handler';
+import { createMemoryNonceStore, type X402NonceStore } from '../server/nonce-store';
+
+export const MOCK_SERVER_ORIGIN = 'http://x402.test';
+
+export interface X402MockServerOptions {
+  accepts: X402PaymentRequirement[];
+  x402Version?: number;
+  origin?: string;
+  path?: string;
+  // Builds the paid response; defaults to a JSON receipt with the payer and transaction.
+  respond?: (paid: X402PaidRequest, request: Request) => Response | Promise<Response>;
+  schemes?: X402SchemeRegistry;
+  nonceStore?: X402NonceStore | null;
+  now?: () => number;
+}
+
+// A queued reply for the next request: a response, a thrown error (a network failure) or a
+// function producing either.
+export type X402MockReply = Response | Error | (() => Response | Promise<Response>);
+
+export interface X402MockServer {
+  url: string;
+  fetch: typeof fetch;
+  handle: (request: Request) => Promise<Response>;
+  requests: Request[];
+  payments: X402PaidRequest[];
+  settlements: X402SettlementResponse[];
+  setAccepts: (accepts: X402PaymentRequirement[]) => void;
+  queueResponse: (reply: X402MockReply) => void;
+  install: () => () => void;
+  reset: () => void;
+}
+
+function defaultRespond(paid: X402PaidRequest): Response {
+  return Response.json({
+    ok: true,
+    payer: paid.payer,
+    transaction: paid.settlement?.transaction ?? null,
+  });
+}
+
+// An in-process 402 resource that verifies real signatures through the mock facilitator.
+export function createMockX402Server(options: X402MockServerOptions): X402MockServer {
+  const {
+    x402Version = DEFAULT_X402_VERSION,
+    origin = MOCK_SERVER_ORIGIN,
+    path = '/resource',
+    respond = defaultRespond,
+    schemes,
+    nonceStore = createMemoryNonceStore(),
+  } = options;
+  const facilitator = createMockFacilitator({ schemes, now: options.now });
+  const url = new URL(path, origin).toString();
+  const requests: Request[] = [];
+  const payments: X402PaidRequest[] = [];
+  const replies: X402MockReply[] = [];
+  let accepts = options.accepts;
+
+  async function handle(request: Request): Promise<Response> {
+    requests.push(request.clone());
+    const reply = replies.shift();
+    if (reply instanceof Error) throw reply;
+    if (reply) return typeof reply === 'function' ? reply() : reply;
+
+    if (new URL(request.url).pathname !== new URL(url).pathname) {
+      return Response.json({ status: 404, message: 'Not found' }, { status: 404 });
+    }
+
+    const result = await processPaymentRequest(request.headers, {
+      accepts,
+      x402Version,
+      facilitator: facilitator.client,
+      schemes,
+      nonceStore,
+    });
+    if (!result.ok) return result.response;
+
+    payments.push(result.paid);
+    const response = await respond(result.paid, request);
+    return withSettlementHeader(response, result.paid.settlement, x402Version);
+  }
+
+  // Relative URLs resolve against the server; other origins fail like an unreachable host.
+  const mockFetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const target = input instanceof Request ? input.url : String(input);
+    const resolved = new URL(target, origin);
+    if (resolved.origin !== new URL(origin).origin) {
+      throw new TypeError(`Failed to fetch ${resolved.toString()}`);
+    }
+    const request =
+      input instanceof Request ? new Request(input, init) : new Request(resolved, init);
+    return handle(request);
+  }) as typeof fetch;
+
+  return {
+    url,
+    fetch: mockFetch,
+    handle,
+    requests,
+    payments,
+    settlements: facilitator.settlements,
+    setAccepts(next) {
+      accepts = next;
+    },
+    queueResponse(reply) {
+      replies.push(reply);
+    },
+    install() {
+      const original = globalThis.fetch;
+      globalThis.fetch = mockFetch;
+      return () => {
+        globalThis.fetch = original;
+      };
+    },
+    reset() {
+      requests.length = 0;
+      payments.length = 0;
+      replies.length = 0;
+      facilitator.settlements.length = 0;
+      accepts = options.accepts;
+    },
+  };
+}
@@ -1,3 +1,9 @@
+import type { X402PaywallError } from './errors';
+import type { ReactNode } from 'react';
+import type { X402ContentRegistry } from './content-renderers';
+import type { X402SchemeRegistry } from './payment-schemes';
+import type { UseX402PaymentResult } from './use-x402-payment';
+
 export interface ThemeConfig {
   background: string;
   card: string;
@@ -40,31 +46,388 @@ export interface X402PaymentRequired {
   accepts: X402PaymentRequirement[];
 }
 
+export interface X402TransferAuthorization {
+  from: string;
+  to: string;
+  value: string;
+  validAfter: string;
+  validBefore: string;
+  nonce: string;
+}
+
+export type X402HeaderFormat = 'base64-json' | 'json';
+
+export interface X402PaymentPayload {
+  x402Version: number;
+  scheme: string;
+  network: string;
+  payload: {
+    signature: string;
+    authorization?: X402TransferAuthorization;
+    [key: string]: unknown;
+  };
+}
+
+export type X402VerificationFailureReason =
+  | 'invalid_payload'
+  | 'unsupported_version'
+  | 'unsupported_scheme'
+  | 'unsupported_network'
+  | 'network_mismatch'
+  | 'missing_domain'
+  | 'invalid_asset'
+  | 'invalid_signature'
+  | 'signer_mismatch'
+  | 'recipient_mismatch'
+  | 'insufficient_amount'
+  | 'not_yet_valid'
+  | 'expired'
+  | 'no_matching_requirement';
+
+export interface X402VerificationResult {
+  isValid: boolean;
+  payer: string | null;
+  payment: X402PaymentPayload | null;
+  authorization: X402TransferAuthorization | null;
+  reasons: X402VerificationFailureReason[];
+}
+
+export type X402ValidationIssueCode =
+  | 'invalid_type'
+  | 'required'
+  | 'unsupported_version'
+  | 'empty_accepts'
+  | 'invalid_network'
+  | 'unsupported_network'
+  | 'invalid_amount'
+  | 'invalid_address'
+  | 'invalid_timeout'
+  | 'missing_domain'
+  | 'invalid_extra';
+
+export interface X402ValidationIssue {
+  path: string;
+  code: X402ValidationIssueCode;
+  message: string;
+}
+
+export interface X402ValidationResult {
+  valid: boolean;
+  issues: X402ValidationIssue[];
+  paymentRequired: X402PaymentRequired | null;
+}
+
+export type X402PaywallErrorCode =
+  | 'USER_REJECTED'
+  | 'CHAIN_SWITCH_FAILED'
+  | 'INVALID_REQUIREMENT'
+  | 'VERIFICATION_FAILED'
+  | 'NETWORK'
+  | 'INSUFFICIENT_FUNDS'
+  | 'UNSUPPORTED_VERSION'
+  | 'FACILITATOR_ERROR'
+  | 'WALLET_NOT_CONNECTED'
+  | 'ALREADY_CONNECTED'
+  | 'CANCELLED'
+  | 'UNKNOWN';
+
+export interface X402FacilitatorRequest {
+  x402Version: number;
+  paymentPayload: X402PaymentPayload;
+  paymentRequirements: Record<string, unknown>;
+}
+
+export interface X402FacilitatorVerifyResponse {
+  isValid: boolean;
+  invalidReason?: string;
+  payer?: string;
+}
+
+export interface X402SupportedKind {
+  x402Version: number;
+  scheme: string;
+  network: string;
+  extra?: Record<string, unknown>;
+}
+
+export interface X402FacilitatorSupportedResponse {
+  kinds: X402SupportedKind[];
+}
+
+export interface AssetMetadata {
+  decimals: number;
+  symbol: string;
+}
+
 export interface BalanceInfo {
+  // Index into `accepts`; set on every balance the paywall reads.
+  acceptIndex?: number;
   network: string;
   chainName: string;
+  symbol?: string;
+  decimals?: number;
   balance?: number | null;
+  balanceAtomic?: bigint | null;
   error?: string | null;
 }
 
-export interface X402PaywallProps {
+export type FundsStatus = 'unknown' | 'sufficient' | 'insufficient';
+
+export interface FundsCheck {
+  status: FundsStatus;
+  required: bigint | null;
+  balance: bigint | null;
+  shortfall: bigint | null;
+}
+
+export type X402SelectionStrategy = 'manual' | 'first-affordable';
+
+export interface X402RequirementOption {
+  index: number;
+  requirement: X402PaymentRequirement;
+  chainName: string;
+  asset: AssetMetadata;
+  amountDisplay: string;
+  balance?: BalanceInfo;
+  affordable: boolean | null;
+  selected: boolean;
+}
+
+export interface X402PriceChange {
+  previous: string;
+  current: string;
+}
+
+export type X402PaywallEventType =
+  | 'requirement_loaded'
+  | 'connector_selected'
+  | 'connect_succeeded'
+  | 'chain_switch_requested'
+  | 'signature_requested'
+  | 'signature_rejected'
+  | 'submission_sent'
+  | 'verified'
+  | 'failed';
+
+export interface X402PaywallEventDetails {
+  x402Version?: number;
+  network?: string;
+  scheme?: string;
+  amount?: string;
+  asset?: string;
+  connectorId?: string;
+  chainId?: number;
+  httpStatus?: number;
+  errorCode?: X402PaywallErrorCode;
+}
+
+export interface X402PaywallEvent extends X402PaywallEventDetails {
+  type: X402PaywallEventType;
+  timestamp: number;
+  // Milliseconds since the previous event (0 for the first one).
+  durationMs: number;
+}
+
+export type PaywallStatus = 'connect' | 'connected' | 'processing' | 'success' | 'error';
+
+export type ResourceStatus = 'loading' | 'payment-required' | 'unlocked' | 'error';
+
+export interface X402SettlementResponse {
+  success: boolean;
+  transaction?: string;
+  network?: string;
+  payer?: string;
+  errorReason?: string;
+}
+
+export interface X402Entitlement {
+  resourceUrl: string;
+  payer: string;
+  result: unknown;
+  contentType?: string | null;
+  accessToken: string | null;
+  settlement: X402SettlementResponse | null;
+  createdAt: number;
+  expiresAt: number | null;
+}
+
+export interface X402EntitlementStore {
+  get: (key: string) => X402Entitlement | null | Promise<X402Entitlement | null>;
+  set: (key: string, entitlement: X402Entitlement) => void | Promise<void>;
+  delete: (key: string) => void | Promise<void>;
+}
+
+export type X402SuccessSource = 'payment' | 'entitlement' | 'free';
+
+export interface X402SuccessContext {
+  // 'entitlement' replays a stored result and 'free' means the resource needed no payment;
+  // both carry an empty `paymentHeader`.
+  source: X402SuccessSource;
+  response: Response;
+  paymentHeader: string;
+  settlement: X402SettlementResponse | null;
+  entitlement: X402Entitlement | null;
+}
+
+export interface X402Messages {
+  secureCheckout: string;
+  close: string;
+  poweredBy: string;
+  appLogoAlt: string;
+  title: string;
+  defaultDescription: string;
+  unknownChain: string;
+  testnetChain: string;
+  missingConfigTitle: string;
+  missingConfigBody: string;
+  diagnosticsTitle: string;
+  paymentOptions: string;
+  optionBalance: string;
+  balanceUnavailable: string;
+  noConnectorsTitle: string;
+  noConnectorsBody: string;
+  connectConnector: string;
+  installConnector: string;
+  connected: string;
+  balances: string;
+  checking: string;
+  noBalances: string;
+  unavailable: string;
+  insufficientFundsTitle: string;
+  insufficientFundsBody: string;
+  checkAgain: string;
+  authorize: string;
+  authorizeHint: string;
+  disconnect: string;
+  confirmInWallet: string;
+  paymentSuccessful: string;
+  accessGranted: string;
+  viewTransaction: string;
+  quoteExpiresIn: string;
+  quoteRefreshing: string;
+  quoteRefreshFailed: string;
+  priceChangedTitle: string;
+  priceChangedBody: string;
+  requoteTitle: string;
+  requoteBody: string;
+  contentTitle: string;
+  contentLoading: string;
+  contentFailed: string;
+  downloadFile: string;
+  paymentFailed: string;
+  tryAgain: string;
+  loadingPaymentDetails: string;
+  alreadyUnlocked: string;
+  loadFailedTitle: string;
+  processing: string;
+  connecting: string;
+  checkingNetwork: string;
+  signInWallet: string;
+  submittingPayment: string;
+  errorGeneric: string;
+  errorMissingChain: string;
+  errorConnectFailed: string;
+  errorConnectionRejected: string;
+  errorTransactionRejected: string;
+  errorWalletNotConnected: string;
+  errorMissingRequirement: string;
+  errorMissingFields: string;
+  errorUnsupportedScheme: string;
+  errorSwitchChain: string;
+  errorServerUnreachable: string;
+  errorVerificationFailed: string;
+  errorMissingPaymentDetails: string;
+  errorLoadFailed: string;
+  errorLoadFailedStatus: string;
+  errorQuoteRefreshStatus: string;
+  errorPaymentCancelled: string;
+  errorPaywallReplaced: string;
+}
+
+export interface X402PaymentOptions {
   paymentRequired: X402PaymentRequired;
   currentUrl: string;
   chainConfig?: ChainConfig;
   chainConfigs?: Record<string, ChainConfig>;
   acceptIndex?: number;
+  selectionStrategy?: X402SelectionStrategy;
+  schemes?: X402SchemeRegistry;
+  showBalances?: boolean;
+  requestInit?: RequestInit;
+  entitlementStore?: X402EntitlementStore;
+  entitlementTtlSeconds?: number | null;
+  locale?: string;
+  messages?: Partial<X402Messages>;
+  renderContent?: boolean;
+  onSuccess?: (result: unknown, context: X402SuccessContext) => void;
+  onError?: (error: X402PaywallError) => void;
+  onEvent?: (event: X402PaywallEvent) => void;
+}
+
+export interface X402PaywallSectionProps extends UseX402PaymentResult {
+  description: string;
+  chainName: string;
+  testnet: boolean;
+  showBalances: boolean;
+  showDiagnostics: boolean;
+  contentRenderers?: X402ContentRegistry;
+}
+
+export type X402PaywallSlot = (props: X402PaywallSectionProps) => ReactNode;
+
+export interface X402PaywallComponents {
+  Header: X402PaywallSlot;
+  Price: X402PaywallSlot;
+  Diagnostics: X402PaywallSlot;
+  Options: X402PaywallSlot;
+  Connectors: X402PaywallSlot;
+  Connected: X402PaywallSlot;
+  Balances: X402PaywallSlot;
+  Authorize: X402PaywallSlot;
+  Processing: X402PaywallSlot;
+  Success: X402PaywallSlot;
+  Error: X402PaywallSlot;
+}
+
+export interface X402PaywallBaseProps
+  extends Omit<X402PaymentOptions, 'paymentRequired' | 'currentUrl'> {
   resourceDescription?: string;
   testnet?: boolean;
   theme?: ThemeConfig;
-  showBalances?: boolean;
-  requestInit?: RequestInit;
-  onSuccess?: (
-    result: unknown,
-    context: {
-      response: Response;
-      paymentHeader: string;
-    },
-  ) => void;
-  onError?: (error: Error) => void;
   className?: string;
+  showDiagnostics?: boolean;
+  components?: Partial<X402PaywallComponents>;
+  contentRenderers?: X402ContentRegistry;
+}
+
+export type X402PaywallProps = X402PaywallBaseProps &
+  (
+    | {
+        paymentRequired: X402PaymentRequired;
+        currentUrl: string;
+        resourceUrl?: undefined;
+      }
+    | {
+        resourceUrl: string;
+        paymentRequired?: undefined;
+        currentUrl?: undefined;
+      }
+  );
+
+export type X402PaywallPresentation = 'modal' | 'drawer';
+
+export interface X402PaywallOutcome {
+  result: unknown;
+  context: X402SuccessContext;
+}
+
+export type X402OpenPaywallOptions = X402PaywallProps & {
+  presentation?: X402PaywallPresentation;
+  closeOnSuccess?: boolean;
+};
+
+export interface X402PaywallProviderProps {
+  children?: ReactNode;
+  presentation?: X402PaywallPresentation;
+  defaults?: Partial<X402PaywallBaseProps>;
 }
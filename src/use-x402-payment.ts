@@ -0,0 +1,611 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { Connector } from 'wagmi';
+import {
+  useAccount,
+  useAccountEffect,
+  useConnectors,
+  useDisconnect,
+} from 'wagmi';
+import type {
+  X402PaymentOptions,
+  X402PaymentRequired,
+  X402PaymentRequirement,
+  X402PriceChange,
+  X402RequirementOption,
+} from './types';
+import {
+  InsufficientFundsError,
+  X402NetworkError,
+  X402ValidationError,
+  type X402PaywallError,
+} from './errors';
+import { createEntitlementResponse, isEntitlementMethod } from './entitlements';
+import { formatMessage, resolveMessages } from './messages';
+import { defaultSchemeRegistry } from './payment-schemes';
+import { validatePaymentRequired } from './validation';
+import { DEFAULT_X402_VERSION } from './x402-versions';
+import {
+  buildTransactionUrl,
+  checkFunds,
+  getAmountAtomic,
+  isRequirementAffordable,
+  parseAmountDisplay,
+  pickRequirement,
+  resolveAssetMetadata,
+  resolveChain,
+  toPaywallError,
+} from './paywall-helpers';
+import {
+  useActionLock,
+  useAssetMetadata,
+  useBalanceData,
+  useConnectorConnect,
+  useConnectorAvailability,
+  usePaywallStatus,
+  usePaymentSubmission,
+  usePaywallEvents,
+  useQuoteExpiry,
+  useStoredEntitlement,
+} from './paywall-hooks';
+import { readPaymentRequiredPayload } from './x402-fetch';
+
+const MAX_REQUOTES = 2;
+
+type QuoteRefreshOutcome =
+  | { status: 'unchanged' | 'changed' }
+  | { status: 'failed'; error: X402PaywallError };
+
+function isSameOffer(a: X402PaymentRequirement, b: X402PaymentRequirement): boolean {
+  return (
+    a.scheme === b.scheme &&
+    a.network === b.network &&
+    a.asset.toLowerCase() === b.asset.toLowerCase()
+  );
+}
+
+function isSameAccepts(a: X402PaymentRequirement[], b: X402PaymentRequirement[]): boolean {
+  return (
+    a.length === b.length &&
+    a.every(
+      (accept, index) =>
+        isSameOffer(accept, b[index]) &&
+        accept.maxAmountRequired === b[index].maxAmountRequired &&
+        accept.payTo.toLowerCase() === b[index].payTo.toLowerCase(),
+    )
+  );
+}
+
+function formatRequirementPrice(requirement: X402PaymentRequirement, locale?: string): string {
+  const asset = resolveAssetMetadata(requirement);
+  return `${parseAmountDisplay(getAmountAtomic(requirement), asset.decimals, locale)} ${
+    asset.symbol
+  }`;
+}
+
+export function useX402Payment(options: X402PaymentOptions) {
+  const {
+    currentUrl,
+    acceptIndex = 0,
+    selectionStrategy = 'manual',
+    showBalances = true,
+    schemes = defaultSchemeRegistry,
+    chainConfig,
+    chainConfigs,
+    requestInit,
+    entitlementStore,
+    entitlementTtlSeconds,
+    locale,
+    renderContent = false,
+    onSuccess,
+    onError,
+    onEvent,
+  } = options;
+
+  const reusableEntitlementStore = isEntitlementMethod(requestInit?.method)
+    ? entitlementStore
+    : undefined;
+
+  const messages = useMemo(
+    () => resolveMessages(locale, options.messages),
+    [locale, options.messages],
+  );
+
+  const {
+    status,
+    errorMessage,
+    processingText,
+    setStatus,
+    setProcessingText,
+    showError,
+    resetState,
+  } = usePaywallStatus({ onError, messages });
+  const { beginAction, endAction, isActionStale, resetAction, isActionBusy } =
+    useActionLock();
+
+  // Requirements re-fetched after the quote expired replace the ones passed in.
+  const [refreshed, setRefreshed] = useState<{
+    source: X402PaymentRequired;
+    paymentRequired: X402PaymentRequired;
+  } | null>(null);
+  const rawPaymentRequired =
+    refreshed?.source === options.paymentRequired
+      ? refreshed.paymentRequired
+      : options.paymentRequired;
+
+  const { validation, paymentRequired } = useMemo(() => {
+    const result = validatePaymentRequired(rawPaymentRequired);
+    const fallback: X402PaymentRequired = { x402Version: DEFAULT_X402_VERSION, accepts: [] };
+    return { validation: result, paymentRequired: result.paymentRequired ?? fallback };
+  }, [rawPaymentRequired]);
+
+  const [quotedAt, setQuotedAt] = useState(() => Date.now());
+  useEffect(() => {
+    setQuotedAt(Date.now());
+  }, [rawPaymentRequired]);
+
+  const reportedValidationRef = useRef<typeof validation | null>(null);
+  useEffect(() => {
+    if (validation.valid || reportedValidationRef.current === validation) return;
+    reportedValidationRef.current = validation;
+    const error = new X402ValidationError(validation.issues);
+    if (validation.paymentRequired) {
+      onError?.(error);
+    } else {
+      showError(error.message, error);
+    }
+  }, [onError, showError, validation]);
+
+  const account = useAccount();
+  const connectors = useConnectors();
+  const disconnectMutation = useDisconnect();
+
+  const accepts = paymentRequired.accepts;
+  const [manualIndex, setManualIndex] = useState<number | null>(null);
+  const [isRefreshingQuote, setIsRefreshingQuote] = useState(false);
+  const [quoteRefreshFailed, setQuoteRefreshFailed] = useState(false);
+  const [priceChange, setPriceChange] = useState<X402PriceChange | null>(null);
+  const [requoteReason, setRequoteReason] = useState<string | null>(null);
+  const requoteCountRef = useRef(0);
+
+  useEffect(() => {
+    setManualIndex(null);
+    setPriceChange(null);
+    setQuoteRefreshFailed(false);
+    setRequoteReason(null);
+    requoteCountRef.current = 0;
+  }, [options.paymentRequired]);
+
+  const connectorAvailability = useConnectorAvailability(connectors, account.status);
+  const { assets } = useAssetMetadata({ accepts, chainConfig, chainConfigs });
+  const {
+    balances,
+    isLoading: isLoadingBalances,
+    refetch: recheckBalance,
+  } = useBalanceData({
+    accepts,
+    assets,
+    chainConfig,
+    chainConfigs,
+    address: account.address,
+    // 'first-affordable' cannot pick an option without reading balances.
+    showBalances: showBalances || selectionStrategy === 'first-affordable',
+  });
+
+  const affordableIndex = useMemo(() => {
+    if (selectionStrategy !== 'first-affordable') return null;
+    const match = accepts.findIndex((accept, index) =>
+      isRequirementAffordable(
+        accept,
+        balances.find((balance) => balance.acceptIndex === index),
+      ),
+    );
+    return match >= 0 ? match : null;
+  }, [accepts, balances, selectionStrategy]);
+
+  const selectedIndex = manualIndex ?? affordableIndex ?? acceptIndex;
+  const requirement = useMemo(
+    () => pickRequirement(accepts, selectedIndex),
+    [accepts, selectedIndex],
+  );
+  const requirementIndex = requirement ? accepts.indexOf(requirement) : -1;
+  const resolvedChain = resolveChain(requirement, chainConfig, chainConfigs);
+  const asset = assets[requirementIndex] ?? resolveAssetMetadata(requirement);
+  const amountAtomic = getAmountAtomic(requirement);
+  const amountDisplay = parseAmountDisplay(amountAtomic, asset.decimals, locale);
+
+  const { emitEvent } = usePaywallEvents({
+    onEvent,
+    requirement,
+    x402Version: paymentRequired.x402Version,
+  });
+  useEffect(() => {
+    if (requirement) emitEvent('requirement_loaded');
+  }, [emitEvent, requirement]);
+
+  const fundsCheck = useMemo(
+    () =>
+      checkFunds(
+        requirement,
+        balances.find((balance) => balance.acceptIndex === requirementIndex),
+      ),
+    [balances, requirement, requirementIndex],
+  );
+
+  const reportedShortfallRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (
+      fundsCheck.status !== 'insufficient' ||
+      !requirement ||
+      fundsCheck.required === null ||
+      fundsCheck.balance === null
+    ) {
+      reportedShortfallRef.current = null;
+      return;
+    }
+    const key = `${requirementIndex}:${fundsCheck.shortfall}`;
+    if (reportedShortfallRef.current === key) return;
+    reportedShortfallRef.current = key;
+    onError?.(
+      new InsufficientFundsError({
+        requirement,
+        asset,
+        required: fundsCheck.required,
+        balance: fundsCheck.balance,
+      }),
+    );
+  }, [asset, fundsCheck, onError, requirement, requirementIndex]);
+
+  const requirementOptions = useMemo<X402RequirementOption[]>(
+    () =>
+      accepts.map((accept, index) => {
+        const balance = balances.find((entry) => entry.acceptIndex === index);
+        const optionAsset = assets[index] ?? resolveAssetMetadata(accept);
+        return {
+          index,
+          requirement: accept,
+          chainName:
+            resolveChain(accept, chainConfig, chainConfigs)?.name || messages.unknownChain,
+          asset: optionAsset,
+          amountDisplay: parseAmountDisplay(
+            getAmountAtomic(accept),
+            optionAsset.decimals,
+            locale,
+          ),
+          balance,
+          affordable: isRequirementAffordable(accept, balance),
+          selected: accept === requirement,
+        };
+      }),
+    [accepts, assets, balances, chainConfig, chainConfigs, locale, messages, requirement],
+  );
+  // Swaps in new requirements (from a refresh or a re-quote) and flags a changed price.
+  const applyPaymentRequired = useCallback(
+    (payload: unknown): 'changed' | 'unchanged' => {
+      const result = validatePaymentRequired(payload);
+      const next = result.paymentRequired;
+      if (!next || next.accepts.length === 0) {
+        throw new X402ValidationError(result.issues, { requirement });
+      }
+
+      const matchIndex = requirement
+        ? next.accepts.findIndex((accept) => isSameOffer(accept, requirement))
+        : -1;
+      const match = next.accepts[matchIndex];
+      const changed = Boolean(
+        requirement &&
+          (!match ||
+            match.maxAmountRequired !== requirement.maxAmountRequired ||
+            match.payTo.toLowerCase() !== requirement.payTo.toLowerCase()),
+      );
+
+      setRefreshed({
+        source: options.paymentRequired,
+        paymentRequired: payload as X402PaymentRequired,
+      });
+      setManualIndex((index) => (index !== null && matchIndex >= 0 ? matchIndex : null));
+      if (changed && requirement) {
+        const current = match ?? next.accepts[Math.min(selectedIndex, next.accepts.length - 1)];
+        setPriceChange({
+          previous: formatRequirementPrice(requirement, locale),
+          current: formatRequirementPrice(current, locale),
+        });
+      }
+      return changed ? 'changed' : 'unchanged';
+    },
+    [locale, options.paymentRequired, requirement, selectedIndex],
+  );
+
+  const handlePaymentRequired = useCallback(
+    (payload: unknown) => {
+      // Stop re-quoting a server that keeps rejecting fresh authorizations.
+      if (requoteCountRef.current >= MAX_REQUOTES) return false;
+      // Unchanged terms mean the payment itself was rejected, not re-quoted.
+      const next = validatePaymentRequired(payload).paymentRequired;
+      if (!next?.accepts.length || isSameAccepts(next.accepts, accepts)) return false;
+      try {
+        applyPaymentRequired(payload);
+      } catch {
+        return false;
+      }
+      requoteCountRef.current += 1;
+      const serverError = (payload as { error?: unknown }).error;
+      setRequoteReason(
+        typeof serverError === 'string' && serverError ? serverError : messages.requoteBody,
+      );
+      return true;
+    },
+    [accepts, applyPaymentRequired, messages.requoteBody],
+  );
+
+  const paymentSubmission = usePaymentSubmission({
+    accountAddress: account.address,
+    accountChainId: account.chainId,
+    requirement,
+    resolvedChain,
+    amountAtomic,
+    decimals: asset.decimals,
+    schemes,
+    paymentRequired,
+    currentUrl,
+    messages,
+    requestInit,
+    entitlementStore: reusableEntitlementStore,
+    entitlementTtlSeconds,
+    captureContent: renderContent,
+    onSuccess,
+    onPaymentRequired: handlePaymentRequired,
+    beginAction,
+    endAction,
+    isActionStale,
+    setStatus,
+    setProcessingText,
+    showError,
+    emitEvent,
+  });
+  const connectorConnect = useConnectorConnect({
+    accountStatus: account.status,
+    resolvedChain,
+    messages,
+    onConnected: () => setStatus('connected'),
+    beginAction,
+    endAction,
+    isActionStale,
+    setStatus,
+    setProcessingText,
+    showError,
+    emitEvent,
+  });
+
+  const { entitlement, isChecking: isCheckingEntitlement } = useStoredEntitlement({
+    store: reusableEntitlementStore,
+    resourceUrl: currentUrl,
+    payer: account.address,
+  });
+
+  const reportedEntitlementRef = useRef<typeof entitlement>(null);
+  useEffect(() => {
+    if (!entitlement || reportedEntitlementRef.current === entitlement) return;
+    if (status !== 'connect' && status !== 'connected') return;
+    reportedEntitlementRef.current = entitlement;
+    setStatus('success');
+    onSuccess?.(entitlement.result, {
+      source: 'entitlement',
+      response: createEntitlementResponse(entitlement),
+      paymentHeader: '',
+      settlement: entitlement.settlement,
+      entitlement,
+    });
+  }, [entitlement, onSuccess, setStatus, status]);
+
+  const settlement = paymentSubmission.settlement ?? entitlement?.settlement ?? null;
+  const transactionUrl = buildTransactionUrl(settlement, chainConfig, chainConfigs);
+
+  const isConnected = account.status === 'connected';
+
+  const resetPaywall = useCallback(
+    (nextStatus: 'connect' | 'connected' = 'connect') => {
+      resetAction();
+      resetState(nextStatus);
+    },
+    [resetAction, resetState],
+  );
+
+  useAccountEffect({
+    onConnect() {
+      if (status !== 'success') {
+        setStatus('connected');
+      }
+    },
+    onDisconnect() {
+      endAction();
+      resetPaywall('connect');
+    },
+  });
+
+  const { connectWithConnector } = connectorConnect;
+  const { signPayment, cancelSubmission } = paymentSubmission;
+
+  // Unmounting (e.g. closing the modal) cancels an action that has not reached the server; a
+  // payment that was already sent still finishes and reports its result.
+  useEffect(
+    () => () => {
+      cancelSubmission();
+      resetAction();
+    },
+    [cancelSubmission, resetAction],
+  );
+  const { mutate: disconnectWallet } = disconnectMutation;
+
+  const isQuoting = status === 'connect' || status === 'connected';
+  const quote = useQuoteExpiry({
+    quotedAt,
+    timeoutSeconds: requirement?.maxTimeoutSeconds,
+    enabled: isQuoting,
+  });
+
+  const refreshQuote = useCallback(async (): Promise<QuoteRefreshOutcome> => {
+    setIsRefreshingQuote(true);
+    try {
+      const headers = new Headers(requestInit?.headers);
+      if (!headers.has('Accept')) headers.set('Accept', 'application/json');
+      const response = await fetch(currentUrl, { ...requestInit, headers });
+      if (response.status !== 402) {
+        throw new X402NetworkError(
+          formatMessage(messages.errorQuoteRefreshStatus, { status: response.status }),
+          { status: response.status, requirement },
+        );
+      }
+      const payload = await readPaymentRequiredPayload(response);
+      const outcome = applyPaymentRequired(payload);
+      setQuoteRefreshFailed(false);
+      return { status: outcome };
+    } catch (err: unknown) {
+      setQuoteRefreshFailed(true);
+      return {
+        status: 'failed',
+        error: toPaywallError(err, { message: messages.quoteRefreshFailed, requirement }),
+      };
+    } finally {
+      setIsRefreshingQuote(false);
+    }
+  }, [
+    applyPaymentRequired,
+    currentUrl,
+    messages.errorQuoteRefreshStatus,
+    messages.quoteRefreshFailed,
+    requestInit,
+    requirement,
+  ]);
+
+  useEffect(() => {
+    if (!quote.isExpired || !isQuoting || isActionBusy) return;
+    if (isRefreshingQuote || quoteRefreshFailed) return;
+    void refreshQuote().then((outcome) => {
+      if (outcome.status === 'failed') onError?.(outcome.error);
+    });
+  }, [
+    isActionBusy,
+    isQuoting,
+    isRefreshingQuote,
+    onError,
+    quote.isExpired,
+    quoteRefreshFailed,
+    refreshQuote,
+  ]);
+
+  const connect = useCallback(
+    (connector: Connector) => connectWithConnector(connector),
+    [connectWithConnector],
+  );
+
+  // Set after an expired quote is refreshed unchanged: signing waits for the refreshed
+  // requirements to render so `signPayment` sees the new quote.
+  const [signAfterRefresh, setSignAfterRefresh] = useState(false);
+
+  useEffect(() => {
+    if (!signAfterRefresh) return;
+    setSignAfterRefresh(false);
+    void signPayment();
+  }, [signAfterRefresh, signPayment]);
+
+  const pay = useCallback(async () => {
+    if (fundsCheck.status === 'insufficient' || isRefreshingQuote) return;
+    setPriceChange(null);
+    setRequoteReason(null);
+    if (quote.isExpired) {
+      const outcome = await refreshQuote();
+      if (outcome.status === 'failed') {
+        showError(messages.quoteRefreshFailed, outcome.error);
+        return;
+      }
+      // A changed price is shown first; authorizing again confirms it.
+      if (outcome.status === 'unchanged') setSignAfterRefresh(true);
+      return;
+    }
+    await signPayment();
+  }, [
+    fundsCheck.status,
+    isRefreshingQuote,
+    messages.quoteRefreshFailed,
+    quote.isExpired,
+    refreshQuote,
+    showError,
+    signPayment,
+  ]);
+
+  const selectRequirement = useCallback(
+    (index: number) => {
+      if (index < 0 || index >= accepts.length) return;
+      setManualIndex(index);
+    },
+    [accepts.length],
+  );
+
+  const retry = useCallback(() => {
+    resetPaywall(isConnected ? 'connected' : 'connect');
+  }, [isConnected, resetPaywall]);
+
+  const disconnect = useCallback(() => {
+    disconnectWallet();
+  }, [disconnectWallet]);
+
+  const hasRequirements = Boolean(
+    requirement &&
+      resolvedChain &&
+      amountAtomic &&
+      requirement.payTo &&
+      requirement.asset,
+  );
+  const isBusy =
+    isActionBusy ||
+    isCheckingEntitlement ||
+    isRefreshingQuote ||
+    status === 'processing' ||
+    connectorConnect.isPending ||
+    paymentSubmission.isPending;
+
+  return {
+    status,
+    errorMessage,
+    processingText,
+    messages,
+    locale,
+    validationIssues: validation.issues,
+    settlement,
+    transactionUrl,
+    entitlement,
+    content: paymentSubmission.content,
+    isSubmitting: paymentSubmission.isSubmitting,
+    quoteExpiresAt: quote.expiresAt,
+    quoteSecondsLeft: quote.secondsLeft,
+    isQuoteExpired: quote.isExpired,
+    isRefreshingQuote,
+    quoteRefreshFailed,
+    priceChange,
+    requoteReason,
+    refreshQuote,
+    isBusy,
+    isConnected,
+    address: account.address,
+    requirement,
+    requirementOptions,
+    resolvedChain,
+    asset,
+    amountAtomic,
+    amountDisplay,
+    hasRequirements,
+    balances,
+    isLoadingBalances,
+    fundsCheck,
+    connectors,
+    connectorAvailability,
+    connect,
+    pay,
+    retry,
+    disconnect,
+    selectRequirement,
+    recheckBalance,
+  };
+}
+
+export type UseX402PaymentResult = ReturnType<typeof useX402Payment>;
@@ -1,4 +1,26 @@
-export function formatAmount(amount: number): string {
+// Regroups an exact decimal string with the locale's separators, keeping every digit.
+function localizeDecimal(value: string, locale: string): string {
+  const negative = value.startsWith('-');
+  const [whole, fraction] = (negative ? value.slice(1) : value).split('.');
+  const formatter = new Intl.NumberFormat(locale);
+  const separator =
+    formatter.formatToParts(1.5).find((part) => part.type === 'decimal')?.value ?? '.';
+  const formatted = `${formatter.format(BigInt(whole || '0'))}${
+    fraction ? `${separator}${fraction}` : ''
+  }`;
+  return negative ? `-${formatted}` : formatted;
+}
+
+export function formatAmount(amount: number, locale?: string): string {
+  if (locale) {
+    const value = Number.isNaN(amount) ? 0 : amount;
+    return new Intl.NumberFormat(
+      locale,
+      value >= 0.01
+        ? { minimumFractionDigits: 2, maximumFractionDigits: 2 }
+        : { maximumFractionDigits: 6 },
+    ).format(value);
+  }
   if (Number.isNaN(amount)) return '0.00';
   if (amount >= 0.01) {
     return amount.toFixed(2);
@@ -7,6 +29,42 @@ export function formatAmount(amount: number): string {
   return formatted.replace(/\.?0+$/, '');
 }
 
+export function formatTokenAmount(amount: bigint, decimals: number, locale?: string): string {
+  const negative = amount < 0n;
+  const absolute = negative ? -amount : amount;
+  const unit = 10n ** BigInt(decimals);
+  const fractionDigits = absolute * 100n >= unit ? 2 : 6;
+
+  let scaled: bigint;
+  if (decimals <= fractionDigits) {
+    scaled = absolute * 10n ** BigInt(fractionDigits - decimals);
+  } else {
+    const divisor = 10n ** BigInt(decimals - fractionDigits);
+    scaled = absolute / divisor;
+    if ((absolute % divisor) * 2n >= divisor) scaled += 1n;
+  }
+
+  const precision = 10n ** BigInt(fractionDigits);
+  const whole = (scaled / precision).toString();
+  let fraction = (scaled % precision).toString().padStart(fractionDigits, '0');
+  if (fractionDigits > 2) {
+    fraction = fraction.replace(/0+$/, '');
+  }
+  const formatted = fraction ? `${whole}.${fraction}` : whole;
+  const signed = negative ? `-${formatted}` : formatted;
+  return locale ? localizeDecimal(signed, locale) : signed;
+}
+
+export function formatCountdown(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = String(seconds % 60).padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}`
+    : `${minutes}:${rest}`;
+}
+
 export function parseNetworkChainId(network?: string): number | null {
   if (!network) return null;
   const match = network.match(/eip155:(\d+)/i);
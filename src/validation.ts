@@ -0,0 +1,167 @@
+import { isAddress } from 'viem';
+import type {
+  X402PaymentRequirement,
+  X402ValidationIssue,
+  X402ValidationIssueCode,
+  X402ValidationResult,
+} from './types';
+import { getAssetTransferMethod } from './payment-schemes';
+import { X402_VERSION_CODECS, type X402VersionCodec } from './x402-versions';
+
+const CAIP2_PATTERN = /^[-a-z0-9]{3,8}:[-_a-zA-Z0-9]{1,32}$/;
+const AMOUNT_PATTERN = /^\d+(\.\d+)?$/;
+const DOMAIN_TRANSFER_METHODS = ['eip3009', 'eip2612'];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+export function validatePaymentRequirement(
+  raw: unknown,
+  options: { codec: X402VersionCodec; path?: string },
+): X402ValidationIssue[] {
+  const { codec, path = 'requirement' } = options;
+  const issues: X402ValidationIssue[] = [];
+  const issue = (field: string, code: X402ValidationIssueCode, message: string) => {
+    issues.push({ path: field ? `${path}.${field}` : path, code, message });
+  };
+
+  if (!isObject(raw)) {
+    issue('', 'invalid_type', 'must be an object.');
+    return issues;
+  }
+
+  if (!isNonEmptyString(raw.scheme)) {
+    issue('scheme', 'required', 'is required.');
+  }
+
+  if (!isNonEmptyString(raw.network)) {
+    issue('network', 'required', 'is required.');
+  } else {
+    const network = codec.fromWireNetwork(raw.network);
+    if (!CAIP2_PATTERN.test(network)) {
+      issue('network', 'invalid_network', `"${raw.network}" is not a CAIP-2 network id.`);
+    } else if (!network.startsWith('eip155:')) {
+      issue('network', 'unsupported_network', `"${network}" is not an EVM (eip155) network.`);
+    }
+  }
+
+  const amountField =
+    codec.version === 1 || raw.amount === undefined ? 'maxAmountRequired' : 'amount';
+  const amount = raw[amountField];
+  if (amount === undefined || amount === null || amount === '') {
+    issue(codec.version === 1 ? 'maxAmountRequired' : 'amount', 'required', 'is required.');
+  } else if (typeof amount !== 'string' || !AMOUNT_PATTERN.test(amount)) {
+    issue(amountField, 'invalid_amount', 'must be a non-negative numeric string.');
+  } else if (!/[1-9]/.test(amount)) {
+    issue(amountField, 'invalid_amount', 'must be greater than zero.');
+  }
+
+  for (const field of ['payTo', 'asset'] as const) {
+    const value = raw[field];
+    if (!isNonEmptyString(value)) {
+      issue(field, 'required', 'is required.');
+    } else if (!isAddress(value)) {
+      issue(field, 'invalid_address', `"${value}" is not a valid address.`);
+    }
+  }
+
+  const timeout = raw.maxTimeoutSeconds;
+  if (timeout === undefined) {
+    issue('maxTimeoutSeconds', 'required', 'is required.');
+  } else if (typeof timeout !== 'number' || !Number.isFinite(timeout) || timeout <= 0) {
+    issue('maxTimeoutSeconds', 'invalid_timeout', 'must be a positive number of seconds.');
+  }
+
+  if (raw.extra !== undefined && !isObject(raw.extra)) {
+    issue('extra', 'invalid_type', 'must be an object.');
+    return issues;
+  }
+  const extra = (raw.extra ?? {}) as Record<string, unknown>;
+
+  const transferMethod = getAssetTransferMethod(raw as unknown as X402PaymentRequirement);
+  if (raw.scheme === 'exact' && DOMAIN_TRANSFER_METHODS.includes(transferMethod)) {
+    if (!isNonEmptyString(extra.name)) {
+      issue('extra.name', 'missing_domain', 'is required to sign the EIP-712 domain.');
+    }
+    if (!isNonEmptyString(extra.version)) {
+      issue('extra.version', 'missing_domain', 'is required to sign the EIP-712 domain.');
+    }
+  }
+
+  if (extra.decimals !== undefined) {
+    const decimals = Number(extra.decimals);
+    if (!Number.isInteger(decimals) || decimals < 0 || decimals > 77) {
+      issue('extra.decimals', 'invalid_extra', 'must be an integer between 0 and 77.');
+    }
+  }
+  if (extra.symbol !== undefined && !isNonEmptyString(extra.symbol)) {
+    issue('extra.symbol', 'invalid_extra', 'must be a non-empty string.');
+  }
+
+  return issues;
+}
+
+export function validatePaymentRequired(raw: unknown): X402ValidationResult {
+  if (!isObject(raw)) {
+    return {
+      valid: false,
+      issues: [{ path: 'paymentRequired', code: 'invalid_type', message: 'must be an object.' }],
+      paymentRequired: null,
+    };
+  }
+
+  const codec =
+    typeof raw.x402Version === 'number' ? X402_VERSION_CODECS[raw.x402Version] : undefined;
+  if (!codec) {
+    return {
+      valid: false,
+      issues: [
+        {
+          path: 'x402Version',
+          code: 'unsupported_version',
+          message: `${String(raw.x402Version)} is not supported (expected ${Object.keys(
+            X402_VERSION_CODECS,
+          ).join(' or ')}).`,
+        },
+      ],
+      paymentRequired: null,
+    };
+  }
+
+  if (!Array.isArray(raw.accepts) || raw.accepts.length === 0) {
+    return {
+      valid: false,
+      issues: [
+        { path: 'accepts', code: 'empty_accepts', message: 'must list at least one requirement.' },
+      ],
+      paymentRequired: { x402Version: codec.version, accepts: [] },
+    };
+  }
+
+  const issues: X402ValidationIssue[] = [];
+  const accepts: X402PaymentRequirement[] = [];
+  raw.accepts.forEach((entry, index) => {
+    const entryIssues = validatePaymentRequirement(entry, {
+      codec,
+      path: `accepts[${index}]`,
+    });
+    issues.push(...entryIssues);
+    const decoded = entryIssues.length === 0 ? codec.decodeRequirement(entry) : null;
+    if (decoded) accepts.push(decoded);
+  });
+
+  return {
+    valid: issues.length === 0,
+    issues,
+    paymentRequired: {
+      x402Version: codec.version,
+      error: typeof raw.error === 'string' ? raw.error : undefined,
+      accepts,
+    },
+  };
+}
@@ -0,0 +1,258 @@
+import { getAddress, validateTypedData, type Address, type Hex } from 'viem';
+import { PAYMENT_REQUIRED_HEADERS, PAYMENT_RESPONSE_HEADERS } from './constants';
+import type {
+  X402EntitlementStore,
+  X402PaymentPayload,
+  X402PaymentRequirement,
+  X402PaymentRequired,
+  X402SettlementResponse,
+} from './types';
+import { getAmountAtomic, getRequiredAmount, pickRequirement } from './paywall-helpers';
+import {
+  defaultSchemeRegistry,
+  encodePaymentHeader,
+  type X402ContractReader,
+  type X402SchemeRegistry,
+  type X402TypedData,
+} from './payment-schemes';
+import {
+  createEntitlementResponse,
+  isEntitlementContentType,
+  isEntitlementMethod,
+  readEntitlement,
+  saveEntitlement,
+} from './entitlements';
+import { decodeBase64Json, parseNetworkChainId } from './utils';
+import { DEFAULT_X402_VERSION, getVersionCodec, X402_VERSION_CODECS } from './x402-versions';
+import { validatePaymentRequired } from './validation';
+import { X402PaywallError, X402ValidationError } from './errors';
+
+export interface X402Signer {
+  address: Address;
+  signTypedData: (typedData: X402TypedData) => Promise<Hex>;
+  switchChain?: (chainId: number) => Promise<void>;
+}
+
+export interface X402FetchOptions {
+  signer: X402Signer;
+  selectRequirement?: (
+    accepts: X402PaymentRequirement[],
+  ) => X402PaymentRequirement | undefined;
+  schemes?: X402SchemeRegistry;
+  readContract?: X402ContractReader;
+  entitlementStore?: X402EntitlementStore;
+  entitlementTtlSeconds?: number | null;
+  fetch?: typeof fetch;
+}
+
+export async function readPaymentRequiredPayload(response: Response): Promise<unknown> {
+  for (const name of PAYMENT_REQUIRED_HEADERS) {
+    const decoded = decodeBase64Json<unknown>(response.headers.get(name));
+    if (decoded) return decoded;
+  }
+
+  const body = (await response
+    .clone()
+    .json()
+    .catch(() => null)) as { paymentRequired?: unknown } | null;
+  return body?.paymentRequired ?? null;
+}
+
+export async function readPaymentRequired(
+  response: Response,
+): Promise<X402PaymentRequired | null> {
+  const payload = await readPaymentRequiredPayload(response);
+  if (!payload) return null;
+  getVersionCodec((payload as { x402Version?: unknown }).x402Version);
+
+  const validation = validatePaymentRequired(payload);
+  if (!validation.paymentRequired?.accepts.length) {
+    throw new X402ValidationError(validation.issues);
+  }
+  return validation.paymentRequired;
+}
+
+export function readSettlementResponse(response: Response): X402SettlementResponse | null {
+  for (const name of PAYMENT_RESPONSE_HEADERS) {
+    const decoded = decodeBase64Json<Partial<X402SettlementResponse>>(
+      response.headers.get(name),
+    );
+    if (decoded && typeof decoded === 'object' && typeof decoded.success === 'boolean') {
+      // v1 servers report network names such as `base-sepolia`; chain configs use CAIP-2 ids.
+      const codec =
+        Object.values(X402_VERSION_CODECS).find((entry) => entry.paymentResponseHeader === name) ??
+        getVersionCodec(DEFAULT_X402_VERSION);
+      return {
+        success: decoded.success,
+        transaction: typeof decoded.transaction === 'string' ? decoded.transaction : undefined,
+        network:
+          typeof decoded.network === 'string' ? codec.fromWireNetwork(decoded.network) : undefined,
+        payer: typeof decoded.payer === 'string' ? decoded.payer : undefined,
+        errorReason:
+          typeof decoded.errorReason === 'string' ? decoded.errorReason : undefined,
+      };
+    }
+  }
+  return null;
+}
+
+export async function readResponseResult(response: Response): Promise<unknown> {
+  const text = await response.text();
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+export async function createPaymentPayload(params: {
+  requirement: X402PaymentRequirement;
+  chainId: number;
+  x402Version: number;
+  signer: X402Signer;
+  decimals?: number;
+  schemes?: X402SchemeRegistry;
+  readContract?: X402ContractReader;
+}): Promise<{ paymentPayload: X402PaymentPayload; paymentHeader: string }> {
+  const { requirement, chainId, x402Version, signer, schemes = defaultSchemeRegistry } =
+    params;
+  const codec = getVersionCodec(x402Version);
+  const amountAtomic = getAmountAtomic(requirement);
+
+  if (!requirement.payTo || !amountAtomic || !requirement.asset) {
+    throw new X402PaywallError('INVALID_REQUIREMENT', 'Payment requirement missing required fields.', {
+      requirement,
+    });
+  }
+
+  const handler = schemes.resolve(requirement);
+  if (!handler) {
+    throw new X402PaywallError(
+      'INVALID_REQUIREMENT',
+      `Unsupported payment scheme: ${requirement.scheme}`,
+      { requirement },
+    );
+  }
+
+  const value = getRequiredAmount(requirement, params.decimals);
+  if (value === null) {
+    throw new X402PaywallError('INVALID_REQUIREMENT', 'Payment requirement has an invalid amount.', {
+      requirement,
+    });
+  }
+
+  const { typedData, buildPayload } = await handler.createAuthorization({
+    requirement,
+    chainId,
+    from: getAddress(signer.address),
+    value,
+    now: Math.floor(Date.now() / 1000),
+    readContract: params.readContract,
+  });
+  validateTypedData(typedData);
+
+  const signature = await signer.signTypedData(typedData);
+
+  const paymentPayload: X402PaymentPayload = {
+    x402Version: codec.version,
+    scheme: requirement.scheme,
+    network: codec.toWireNetwork(requirement.network),
+    payload: buildPayload(signature),
+  };
+
+  return {
+    paymentPayload,
+    paymentHeader: encodePaymentHeader(paymentPayload, handler.headerFormat),
+  };
+}
+
+export function withPaymentHeader(
+  requestInit: RequestInit | undefined,
+  paymentHeader: string,
+  x402Version = DEFAULT_X402_VERSION,
+): RequestInit {
+  const headers = new Headers(requestInit?.headers);
+  headers.set(getVersionCodec(x402Version).paymentSignatureHeader, paymentHeader);
+  if (!headers.has('Accept')) {
+    headers.set('Accept', 'application/json');
+  }
+  return {
+    method: requestInit?.method || 'GET',
+    ...requestInit,
+    headers,
+  };
+}
+
+export async function fetchWithX402(
+  input: string | URL,
+  init: RequestInit | undefined,
+  options: X402FetchOptions,
+): Promise<Response> {
+  const fetchImpl = options.fetch ?? fetch;
+  const entitlementStore = isEntitlementMethod(init?.method)
+    ? options.entitlementStore
+    : undefined;
+  const resourceUrl = String(input);
+  if (entitlementStore) {
+    const entitlement = await readEntitlement(
+      entitlementStore,
+      resourceUrl,
+      options.signer.address,
+    ).catch(() => null);
+    if (entitlement) return createEntitlementResponse(entitlement);
+  }
+
+  const response = await fetchImpl(input, init);
+  if (response.status !== 402) return response;
+
+  const paymentRequired = await readPaymentRequired(response);
+  if (!paymentRequired) {
+    throw new X402PaywallError(
+      'INVALID_REQUIREMENT',
+      'Payment required, but the response did not include payment requirements.',
+    );
+  }
+
+  const requirement = options.selectRequirement
+    ? options.selectRequirement(paymentRequired.accepts)
+    : pickRequirement(paymentRequired.accepts, 0);
+  if (!requirement) {
+    throw new X402PaywallError('INVALID_REQUIREMENT', 'No acceptable payment requirement found.');
+  }
+
+  const chainId = parseNetworkChainId(requirement.network);
+  if (!chainId) {
+    throw new X402PaywallError(
+      'INVALID_REQUIREMENT',
+      `Unsupported payment network: ${requirement.network}`,
+      { requirement },
+    );
+  }
+
+  await options.signer.switchChain?.(chainId);
+  const { paymentHeader } = await createPaymentPayload({
+    requirement,
+    chainId,
+    x402Version: paymentRequired.x402Version,
+    signer: options.signer,
+    schemes: options.schemes,
+    readContract: options.readContract,
+  });
+
+  const paidResponse = await fetchImpl(
+    input,
+    withPaymentHeader(init, paymentHeader, paymentRequired.x402Version),
+  );
+  const contentType = paidResponse.headers.get('Content-Type');
+  if (entitlementStore && paidResponse.ok && isEntitlementContentType(contentType)) {
+    await saveEntitlement(entitlementStore, {
+      resourceUrl,
+      payer: options.signer.address,
+      result: await readResponseResult(paidResponse.clone()),
+      contentType,
+      settlement: readSettlementResponse(paidResponse),
+      ttlSeconds: options.entitlementTtlSeconds,
+    }).catch(() => null);
+  }
+  return paidResponse;
+}
@@ -0,0 +1,153 @@
+import { DEFAULT_TIMEOUT_SECONDS } from './constants';
+import { X402UnsupportedVersionError } from './errors';
+import type { X402PaymentRequirement, X402PaymentRequired } from './types';
+
+export interface X402VersionCodec {
+  version: number;
+  paymentRequiredHeader: string;
+  paymentSignatureHeader: string;
+  paymentResponseHeader: string;
+  toWireNetwork: (network: string) => string;
+  fromWireNetwork: (network: string) => string;
+  encodeRequirement: (requirement: X402PaymentRequirement) => Record<string, unknown>;
+  decodeRequirement: (raw: unknown) => X402PaymentRequirement | null;
+}
+
+// v1 servers name networks; v2 uses CAIP-2 identifiers throughout.
+export const LEGACY_NETWORK_IDS: Record<string, string> = {
+  base: 'eip155:8453',
+  'base-sepolia': 'eip155:84532',
+  ethereum: 'eip155:1',
+  sepolia: 'eip155:11155111',
+  optimism: 'eip155:10',
+  arbitrum: 'eip155:42161',
+  polygon: 'eip155:137',
+  'polygon-amoy': 'eip155:80002',
+  avalanche: 'eip155:43114',
+  'avalanche-fuji': 'eip155:43113',
+};
+
+const CAIP2_TO_LEGACY = Object.fromEntries(
+  Object.entries(LEGACY_NETWORK_IDS).map(([name, id]) => [id, name]),
+);
+
+function readString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function decodeCommonFields(
+  raw: Record<string, unknown>,
+  network: string,
+  amount: string,
+): X402PaymentRequirement | null {
+  const scheme = readString(raw.scheme);
+  const payTo = readString(raw.payTo);
+  const asset = readString(raw.asset);
+  if (!scheme || !payTo || !asset) return null;
+  const timeout = Number(raw.maxTimeoutSeconds);
+  return {
+    scheme,
+    network,
+    maxAmountRequired: amount,
+    resource: readString(raw.resource) ?? '',
+    description: readString(raw.description),
+    mimeType: readString(raw.mimeType),
+    payTo,
+    asset,
+    maxTimeoutSeconds: Number.isFinite(timeout) && timeout > 0 ? timeout : DEFAULT_TIMEOUT_SECONDS,
+    outputSchema: (raw.outputSchema as object | null | undefined) ?? undefined,
+    extra:
+      raw.extra && typeof raw.extra === 'object'
+        ? (raw.extra as Record<string, unknown>)
+        : undefined,
+  };
+}
+
+function withoutUndefined(value: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined));
+}
+
+export const x402V1Codec: X402VersionCodec = {
+  version: 1,
+  paymentRequiredHeader: 'X-PAYMENT',
+  paymentSignatureHeader: 'X-PAYMENT-SIGNATURE',
+  paymentResponseHeader: 'X-PAYMENT-RESPONSE',
+  toWireNetwork: (network) => CAIP2_TO_LEGACY[network] ?? network,
+  fromWireNetwork: (network) => LEGACY_NETWORK_IDS[network] ?? network,
+  encodeRequirement: (requirement) =>
+    withoutUndefined({
+      ...requirement,
+      network: x402V1Codec.toWireNetwork(requirement.network),
+    }),
+  decodeRequirement: (raw) => {
+    if (!raw || typeof raw !== 'object') return null;
+    const entry = raw as Record<string, unknown>;
+    const network = readString(entry.network);
+    const amount = readString(entry.maxAmountRequired);
+    if (!network || !amount) return null;
+    return decodeCommonFields(entry, x402V1Codec.fromWireNetwork(network), amount);
+  },
+};
+
+export const x402V2Codec: X402VersionCodec = {
+  version: 2,
+  paymentRequiredHeader: 'PAYMENT',
+  paymentSignatureHeader: 'PAYMENT-SIGNATURE',
+  paymentResponseHeader: 'PAYMENT-RESPONSE',
+  toWireNetwork: (network) => LEGACY_NETWORK_IDS[network] ?? network,
+  fromWireNetwork: (network) => LEGACY_NETWORK_IDS[network] ?? network,
+  encodeRequirement: ({ maxAmountRequired, ...requirement }) =>
+    withoutUndefined({
+      ...requirement,
+      network: x402V2Codec.toWireNetwork(requirement.network),
+      amount: maxAmountRequired,
+    }),
+  decodeRequirement: (raw) => {
+    if (!raw || typeof raw !== 'object') return null;
+    const entry = raw as Record<string, unknown>;
+    const network = readString(entry.network);
+    // Also accept the decoded in-memory shape, e.g. a `paymentRequired` prop.
+    const amount = readString(entry.amount) ?? readString(entry.maxAmountRequired);
+    if (!network || !amount) return null;
+    return decodeCommonFields(entry, x402V2Codec.fromWireNetwork(network), amount);
+  },
+};
+
+export const X402_VERSION_CODECS: Record<number, X402VersionCodec> = {
+  1: x402V1Codec,
+  2: x402V2Codec,
+};
+
+export const DEFAULT_X402_VERSION = 2;
+
+export function getVersionCodec(version: unknown): X402VersionCodec {
+  const codec = typeof version === 'number' ? X402_VERSION_CODECS[version] : undefined;
+  if (!codec) {
+    throw new X402UnsupportedVersionError(version, Object.keys(X402_VERSION_CODECS).map(Number));
+  }
+  return codec;
+}
+
+export function decodePaymentRequired(raw: unknown): X402PaymentRequired {
+  const value = (raw ?? {}) as { x402Version?: unknown; error?: unknown; accepts?: unknown };
+  const codec = getVersionCodec(value.x402Version);
+  const accepts = Array.isArray(value.accepts) ? value.accepts : [];
+  return {
+    x402Version: codec.version,
+    error: readString(value.error),
+    accepts: accepts
+      .map((entry) => codec.decodeRequirement(entry))
+      .filter((entry): entry is X402PaymentRequirement => entry !== null),
+  };
+}
+
+export function encodePaymentRequired(
+  paymentRequired: X402PaymentRequired,
+): Record<string, unknown> {
+  const codec = getVersionCodec(paymentRequired.x402Version);
+  return withoutUndefined({
+    x402Version: codec.version,
+    error: paymentRequired.error,
+    accepts: paymentRequired.accepts.map((accept) => codec.encodeRequirement(accept)),
+  });
+}
@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import React, { act } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import { enMessages, X402Content } from '../src';
+import { waitFor } from '../src/testing';
+import { requirement } from './fixtures';
+
+const pdfRequirement = { ...requirement, mimeType: 'application/pdf' };
+const mounted: Array<{ root: Root; container: HTMLElement }> = [];
+
+afterEach(async () => {
+  for (const { root, container } of mounted.splice(0)) {
+    await act(async () => root.unmount());
+    container.remove();
+  }
+});
+
+async function renderContent(response: Response) {
+  const globals = globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean };
+  globals.IS_REACT_ACT_ENVIRONMENT = true;
+  const container = document.body.appendChild(document.createElement('div'));
+  const root = createRoot(container);
+  mounted.push({ root, container });
+  await act(async () => {
+    root.render(
+      <X402Content
+        response={response}
+        mimeType="application/pdf"
+        requirement={pdfRequirement}
+        messages={enMessages}
+      />,
+    );
+  });
+  return container;
+}
+
+describe('pdf content renderer', () => {
+  test('embeds a PDF response', async () => {
+    const container = await renderContent(
+      new Response('%PDF-1.7', { headers: { 'Content-Type': 'application/pdf' } }),
+    );
+    const frame = await waitFor(() => {
+      const element = container.querySelector('iframe');
+      expect(element).not.toBeNull();
+      return element!;
+    });
+    expect(frame.getAttribute('src')).toStartWith('blob:');
+  });
+
+  test('offers a non-PDF body as a download instead of framing it', async () => {
+    const container = await renderContent(
+      new Response('<script>alert(1)</script>', { headers: { 'Content-Type': 'text/html' } }),
+    );
+    await waitFor(() => expect(container.querySelector('a[download]')).not.toBeNull());
+    expect(container.querySelector('iframe')).toBeNull();
+  });
+});
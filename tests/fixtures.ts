@@ -0,0 +1,44 @@
+import type { Hex, TypedDataDefinition } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { createPaymentPayload, type X402PaymentRequirement } from '../src';
+import { TEST_PRIVATE_KEY } from '../src/testing';
+import { parseNetworkChainId } from '../src/utils';
+
+export const PAY_TO = '0x1b0f291c8fFebE891886351CDfF8A304a840C8Ad';
+export const USDC_BASE_SEPOLIA = '0x036CbD53842c5426634e7929541eC2318f3dCF7e';
+export const EURC_BASE_SEPOLIA = '0x808456652fdb597867f38412077A9182bf77359F';
+
+export const payer = privateKeyToAccount(TEST_PRIVATE_KEY);
+
+export const requirement: X402PaymentRequirement = {
+  scheme: 'exact',
+  network: 'eip155:84532',
+  maxAmountRequired: '2500',
+  resource: '/resource',
+  description: 'Premium article',
+  mimeType: 'application/json',
+  payTo: PAY_TO,
+  asset: USDC_BASE_SEPOLIA,
+  maxTimeoutSeconds: 3600,
+  extra: { name: 'USD Coin', version: '2' },
+};
+
+export function paymentHeaders(paymentHeader: string): Headers {
+  return new Headers({ 'PAYMENT-SIGNATURE': paymentHeader });
+}
+
+export function signPayment(
+  target: X402PaymentRequirement,
+  options: { x402Version?: number; privateKey?: Hex } = {},
+) {
+  const account = options.privateKey ? privateKeyToAccount(options.privateKey) : payer;
+  return createPaymentPayload({
+    requirement: target,
+    chainId: parseNetworkChainId(target.network)!,
+    x402Version: options.x402Version ?? 2,
+    signer: {
+      address: account.address,
+      signTypedData: (typedData) => account.signTypedData(typedData as TypedDataDefinition),
+    },
+  });
+}
@@ -0,0 +1,59 @@
+import { describe, expect, test } from 'bun:test';
+import type { X402PaymentRequirement } from '../src';
+import { processPaymentRequest } from '../src/server';
+import { EURC_BASE_SEPOLIA, payer, paymentHeaders, requirement, signPayment } from './fixtures';
+
+const eurc: X402PaymentRequirement = {
+  ...requirement,
+  asset: EURC_BASE_SEPOLIA,
+  extra: { name: 'EURC', version: '2' },
+};
+
+async function readReasons(response: Response): Promise<string[]> {
+  return ((await response.json()) as { reasons?: string[] }).reasons ?? [];
+}
+
+describe('processPaymentRequest', () => {
+  test('answers 402 without a payment header', async () => {
+    const result = await processPaymentRequest(new Headers(), { accepts: [requirement] });
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.response.status).toBe(402);
+  });
+
+  test('matches the asset a payment was signed for when offers share a network', async () => {
+    for (const offer of [requirement, eurc]) {
+      const { paymentHeader } = await signPayment(offer);
+      const result = await processPaymentRequest(paymentHeaders(paymentHeader), {
+        accepts: [requirement, eurc],
+      });
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.paid.requirement.asset).toBe(offer.asset);
+        expect(result.paid.payer).toBe(payer.address);
+      }
+    }
+  });
+
+  test('rejects a payment that matches no offer instead of checking the first', async () => {
+    const { paymentHeader } = await signPayment({ ...requirement, network: 'eip155:8453' });
+    const result = await processPaymentRequest(paymentHeaders(paymentHeader), {
+      accepts: [requirement, eurc],
+    });
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.response.status).toBe(402);
+      expect(await readReasons(result.response)).toEqual(['no_matching_requirement']);
+    }
+  });
+
+  test('rejects a payment signed for an asset that is not offered', async () => {
+    const { paymentHeader } = await signPayment(eurc);
+    const result = await processPaymentRequest(paymentHeaders(paymentHeader), {
+      accepts: [requirement, { ...eurc, extra: { name: 'Other', version: '1' } }],
+    });
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(await readReasons(result.response)).toEqual(['no_matching_requirement']);
+    }
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  createMockFacilitator,
+  getRequestPath,
+  matchPriceRule,
+  withX402Fetch,
+  withX402Node,
+  x402Express,
+  x402Hono,
+  type X402HonoContext,
+  type X402MiddlewareOptions,
+  type X402NodeRequest,
+  type X402PaidRequest,
+  type X402PriceRule,
+} from '../src/server';
+import { requirement, signPayment } from './fixtures';
+
+const accepts = [requirement];
+
+function createOptions(): X402MiddlewareOptions {
+  return {
+    routes: [{ path: '/reports/:id', method: 'GET', accepts }],
+    facilitator: createMockFacilitator().client,
+  };
+}
+
+function createResponse() {
+  const headers: Record<string, string> = {};
+  const res = {
+    statusCode: 200,
+    headersSent: false,
+    body: undefined as string | undefined,
+    headers,
+    setHeader(name: string, value: string) {
+      headers[name.toLowerCase()] = value;
+    },
+    end(body?: string) {
+      res.body = body;
+      res.headersSent = true;
+    },
+  };
+  return res;
+}
+
+async function signedHeaders(): Promise<Record<string, string>> {
+  const { paymentHeader } = await signPayment(requirement);
+  return { 'payment-signature': paymentHeader };
+}
+
+function waitForEnd(res: ReturnType<typeof createResponse>) {
+  return new Promise<void>((resolve) => {
+    const end = res.end;
+    res.end = (body) => {
+      end(body);
+      resolve();
+    };
+  });
+}
+
+describe('matchPriceRule', () => {
+  const rule = (path: X402PriceRule['path'], method?: string): X402PriceRule => ({
+    path,
+    method,
+    accepts,
+  });
+
+  test.each([
+    ['/reports', '/reports', true],
+    ['/reports', '/reports/', true],
+    ['/reports', '/reports/1', false],
+    ['/reports/:id', '/reports/42', true],
+    ['/reports/:id', '/reports/42/pdf', false],
+    ['/api/*', '/api/a/b', true],
+    ['/api/*/raw', '/api/a/raw', true],
+    ['/a.b', '/axb', false],
+  ])('%s matches %s: %p', (pattern, path, expected) => {
+    expect(matchPriceRule([rule(pattern)], 'GET', path) !== null).toBe(expected);
+  });
+
+  test('matches regular expressions, predicates and methods', () => {
+    expect(matchPriceRule([rule(/^\/files\/\d+$/)], 'GET', '/files/7')).not.toBeNull();
+    expect(matchPriceRule([rule((path) => path.endsWith('.pdf'))], 'GET', '/a.pdf')).not.toBeNull();
+    expect(matchPriceRule([rule('/reports', 'post')], 'POST', '/reports')).not.toBeNull();
+    expect(matchPriceRule([rule('/reports', 'POST')], 'GET', '/reports')).toBeNull();
+  });
+
+  test('reads the path without the query string', () => {
+    expect(getRequestPath('/reports/1?format=pdf')).toBe('/reports/1');
+    expect(getRequestPath('https://example.com/reports/1#top')).toBe('/reports/1');
+  });
+});
+
+describe('withX402Node', () => {
+  test('passes free routes through and answers 402 on paid ones', async () => {
+    const handler = withX402Node((req, res) => {
+      res.end(`free ${req.url}`);
+    }, createOptions());
+
+    const free = createResponse();
+    const freeDone = waitForEnd(free);
+    handler({ method: 'GET', url: '/health', headers: {} }, free);
+    await freeDone;
+    expect(free.body).toBe('free /health');
+
+    const paid = createResponse();
+    const paidDone = waitForEnd(paid);
+    handler({ method: 'GET', url: '/reports/1', headers: {} }, paid);
+    await paidDone;
+    expect(paid.statusCode).toBe(402);
+    expect(paid.headers['content-type']).toBe('application/json');
+  });
+
+  test('runs the listener with the payment and the settlement header', async () => {
+    const handler = withX402Node((req: X402NodeRequest, res) => {
+      res.end(`paid by ${req.x402?.payer}`);
+    }, createOptions());
+    const res = createResponse();
+    const done = waitForEnd(res);
+    handler({ method: 'GET', url: '/reports/1', headers: await signedHeaders() }, res);
+    await done;
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toStartWith('paid by 0x');
+    expect(res.headers['payment-response']).toBeTruthy();
+  });
+
+  test('answers 500 when the listener rejects', async () => {
+    const handler = withX402Node(async () => {
+      throw new Error('boom');
+    }, createOptions());
+    const res = createResponse();
+    const done = waitForEnd(res);
+    handler({ method: 'GET', url: '/health', headers: {} }, res);
+    await done;
+    expect(res.statusCode).toBe(500);
+  });
+});
+
+describe('x402Express', () => {
+  test('uses originalUrl and sets req.x402 before calling next', async () => {
+    const middleware = x402Express(createOptions());
+    const req: X402NodeRequest = {
+      method: 'GET',
+      url: '/1',
+      originalUrl: '/reports/1',
+      headers: await signedHeaders(),
+    };
+    await new Promise<void>((resolve, reject) => {
+      middleware(req, createResponse(), (error) => (error ? reject(error) : resolve()));
+    });
+    expect(req.x402?.requirement).toEqual(requirement);
+  });
+});
+
+describe('x402Hono', () => {
+  async function run(request: Request) {
+    const middleware = x402Hono(createOptions());
+    let paid: X402PaidRequest | undefined;
+    let nextCalled = false;
+    const context: X402HonoContext = {
+      req: { raw: request },
+      res: new Response('ok'),
+      set: (_key, value) => {
+        paid = value;
+      },
+    };
+    const response = await middleware(context, async () => {
+      nextCalled = true;
+    });
+    return { response, context, paid, nextCalled };
+  }
+
+  test('answers 402 on paid routes without calling next', async () => {
+    const { response, nextCalled } = await run(new Request('http://localhost/reports/1'));
+    expect(response?.status).toBe(402);
+    expect(nextCalled).toBe(false);
+  });
+
+  test('sets the payment and adds the settlement header', async () => {
+    const { context, paid, nextCalled } = await run(
+      new Request('http://localhost/reports/1', { headers: await signedHeaders() }),
+    );
+    expect(nextCalled).toBe(true);
+    expect(paid?.payer).toStartWith('0x');
+    expect(context.res.headers.get('PAYMENT-RESPONSE')).toBeTruthy();
+  });
+
+  test('calls next for free routes', async () => {
+    const { response, nextCalled } = await run(new Request('http://localhost/'));
+    expect(response).toBeUndefined();
+    expect(nextCalled).toBe(true);
+  });
+});
+
+describe('withX402Fetch', () => {
+  const handler = withX402Fetch(
+    (_request, paid) => Response.json({ payer: paid?.payer ?? null }),
+    createOptions(),
+  );
+
+  test('passes free routes through with no payment', async () => {
+    const response = await handler(new Request('http://localhost/reports'));
+    expect(await response.json()).toEqual({ payer: null });
+  });
+
+  test('only charges the methods a rule names', async () => {
+    const response = await handler(new Request('http://localhost/reports/1', { method: 'POST' }));
+    expect(response.status).toBe(200);
+  });
+
+  test('answers 402 and then serves the paid request', async () => {
+    expect((await handler(new Request('http://localhost/reports/1'))).status).toBe(402);
+    const response = await handler(
+      new Request('http://localhost/reports/1', { headers: await signedHeaders() }),
+    );
+    expect(response.status).toBe(200);
+    expect(response.headers.get('PAYMENT-RESPONSE')).toBeTruthy();
+  });
+});
@@ -0,0 +1,140 @@
+import { Database } from 'bun:sqlite';
+import { describe, expect, test } from 'bun:test';
+import {
+  createFileNonceStore,
+  createMemoryNonceStore,
+  createSqliteNonceStore,
+  getNonceKey,
+  processPaymentRequest,
+  type X402NonceFileSystem,
+  type X402NonceRecord,
+  type X402NonceStore,
+} from '../src/server';
+import { paymentHeaders, requirement, signPayment } from './fixtures';
+
+function createRecord(nonce: string, expiresAt = 2_000): X402NonceRecord {
+  return { from: '0xabc', nonce, signature: '0x01', status: 'pending', expiresAt, paid: null };
+}
+
+function createFileSystem(files = new Map<string, string>()) {
+  const fs: X402NonceFileSystem = {
+    async readFile(path) {
+      const contents = files.get(path);
+      if (contents === undefined) {
+        throw Object.assign(new Error(`ENOENT: ${path}`), { code: 'ENOENT' });
+      }
+      return contents;
+    },
+    async writeFile(path, data) {
+      files.set(path, data);
+    },
+    async rename(from, to) {
+      files.set(to, files.get(from)!);
+      files.delete(from);
+    },
+  };
+  return { fs, files };
+}
+
+const stores: Array<[string, () => X402NonceStore]> = [
+  ['memory', () => createMemoryNonceStore()],
+  ['file', () => createFileNonceStore({ path: 'nonces.json', fs: createFileSystem().fs })],
+  ['sqlite', () => createSqliteNonceStore({ db: new Database(':memory:') })],
+];
+
+describe.each(stores)('%s nonce store', (_name, createStore) => {
+  test('inserts a key only once', async () => {
+    const store = createStore();
+    expect(await store.insert('a', createRecord('1'))).toBe(true);
+    expect(await store.insert('a', createRecord('2'))).toBe(false);
+    expect((await store.get('a'))?.nonce).toBe('1');
+  });
+
+  test('updates, deletes and prunes expired records', async () => {
+    const store = createStore();
+    await store.insert('a', createRecord('1', 1_000));
+    await store.insert('b', createRecord('2', 3_000));
+    await store.update('b', { ...createRecord('2', 3_000), status: 'settled' });
+    expect((await store.get('b'))?.status).toBe('settled');
+
+    await store.prune(1_000);
+    expect(await store.get('a')).toBeNull();
+    await store.delete('b');
+    expect(await store.get('b')).toBeNull();
+  });
+});
+
+describe('createFileNonceStore', () => {
+  test('keeps records written through another store on the same file', async () => {
+    const { fs, files } = createFileSystem();
+    const first = createFileNonceStore({ path: 'nonces.json', fs });
+    const second = createFileNonceStore({ path: 'nonces.json', fs });
+
+    await first.get('a');
+    await second.insert('b', createRecord('2'));
+    expect(await first.insert('b', createRecord('3'))).toBe(false);
+    await first.insert('a', createRecord('1'));
+
+    expect(Object.keys(JSON.parse(files.get('nonces.json')!))).toEqual(['b', 'a']);
+    expect([...files.keys()]).toEqual(['nonces.json']);
+  });
+
+  test('fails instead of starting empty when the file is corrupt', async () => {
+    const { fs } = createFileSystem(new Map([['nonces.json', '{"a":']]));
+    const store = createFileNonceStore({ path: 'nonces.json', fs });
+    await expect(store.insert('a', createRecord('1'))).rejects.toThrow();
+  });
+});
+
+describe('replay protection', () => {
+  test('returns the original payment when the same header is sent again', async () => {
+    const { paymentHeader } = await signPayment(requirement);
+    const options = { accepts: [requirement], nonceStore: createMemoryNonceStore() };
+    const first = await processPaymentRequest(paymentHeaders(paymentHeader), options);
+    const second = await processPaymentRequest(paymentHeaders(paymentHeader), options);
+
+    expect(first.ok && first.paid.replayed).toBe(false);
+    expect(second.ok && second.paid.replayed).toBe(true);
+  });
+
+  test('tracks nonces by default', async () => {
+    const { paymentHeader } = await signPayment(requirement);
+    await processPaymentRequest(paymentHeaders(paymentHeader), { accepts: [requirement] });
+    const replay = await processPaymentRequest(paymentHeaders(paymentHeader), {
+      accepts: [requirement],
+    });
+    expect(replay.ok && replay.paid.replayed).toBe(true);
+  });
+
+  test('accepts the same header again when replay protection is off', async () => {
+    const { paymentHeader } = await signPayment(requirement);
+    const options = { accepts: [requirement], nonceStore: null };
+    const first = await processPaymentRequest(paymentHeaders(paymentHeader), options);
+    const second = await processPaymentRequest(paymentHeaders(paymentHeader), options);
+
+    expect(first.ok && second.ok).toBe(true);
+    expect(second.ok && second.paid.replayed).toBe(false);
+  });
+
+  test('rejects a reused nonce with another signature', async () => {
+    const { paymentPayload, paymentHeader } = await signPayment(requirement);
+    const nonceStore = createMemoryNonceStore();
+    const { from, nonce } = paymentPayload.payload.authorization!;
+    await nonceStore.insert(getNonceKey(from, nonce), {
+      ...createRecord(nonce, Number.MAX_SAFE_INTEGER),
+      from,
+      status: 'settled',
+    });
+
+    const result = await processPaymentRequest(paymentHeaders(paymentHeader), {
+      accepts: [requirement],
+      nonceStore,
+    });
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(((await result.response.json()) as { reasons: string[] }).reasons).toEqual([
+        'nonce_already_used',
+      ]);
+    }
+  });
+});
@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, spyOn, test } from 'bun:test';
+import { X402VerificationError } from '../src';
+import {
+  createMockX402Server,
+  createX402TestConfig,
+  renderPaywall,
+  waitFor,
+} from '../src/testing';
+import { EURC_BASE_SEPOLIA, requirement } from './fixtures';
+
+const cleanups: Array<() => unknown> = [];
+
+afterEach(async () => {
+  for (const cleanup of cleanups.splice(0).reverse()) await cleanup();
+});
+
+describe('X402Paywall', () => {
+  test('connects, signs and unlocks the resource', async () => {
+    const server = createMockX402Server({ accepts: [requirement] });
+    cleanups.push(server.install());
+    const paywall = await renderPaywall({ resourceUrl: server.url });
+    cleanups.push(paywall.unmount);
+
+    await paywall.click('Connect Local Key Wallet');
+    await paywall.click(/^Authorize/);
+    await waitFor(() => expect(paywall.results).toHaveLength(1));
+
+    expect(server.payments).toHaveLength(1);
+    expect(paywall.errors).toHaveLength(0);
+    expect(paywall.events.map((event) => event.type)).toContain('verified');
+  });
+
+  test('reports a rejected signature without submitting a payment', async () => {
+    const server = createMockX402Server({ accepts: [requirement] });
+    cleanups.push(server.install());
+    const config = createX402TestConfig({ features: { signTypedDataError: true } });
+    const paywall = await renderPaywall({ resourceUrl: server.url }, { config });
+    cleanups.push(paywall.unmount);
+
+    await paywall.click('Connect Local Key Wallet');
+    await paywall.click(/^Authorize/);
+    await waitFor(() => expect(paywall.errors).toHaveLength(1));
+
+    expect(paywall.errors[0].code).toBe('USER_REJECTED');
+    expect(paywall.events.map((event) => event.type)).toContain('signature_rejected');
+    expect(paywall.results).toHaveLength(0);
+    expect(server.payments).toHaveLength(0);
+    expect(server.requests).toHaveLength(1);
+  });
+
+  test('fails verification when the server rejects the authorization', async () => {
+    // The server clock runs past the authorization's validBefore.
+    const server = createMockX402Server({
+      accepts: [requirement],
+      now: () => Math.floor(Date.now() / 1000) + 2 * 3600,
+    });
+    cleanups.push(server.install());
+    const paywall = await renderPaywall({ resourceUrl: server.url });
+    cleanups.push(paywall.unmount);
+
+    await paywall.click('Connect Local Key Wallet');
+    await paywall.click(/^Authorize/);
+    await waitFor(() => expect(paywall.errors).toHaveLength(1));
+
+    const [error] = paywall.errors;
+    expect(error).toBeInstanceOf(X402VerificationError);
+    expect((error as X402VerificationError).status).toBe(402);
+    expect((error as X402VerificationError).reasons).toContain('expired');
+    expect(paywall.events.map((event) => event.type)).toContain('failed');
+    expect(paywall.results).toHaveLength(0);
+    expect(server.payments).toHaveLength(0);
+  });
+
+  test('re-quotes when the price changes and pays the new amount', async () => {
+    const server = createMockX402Server({ accepts: [requirement] });
+    cleanups.push(server.install());
+    const paywall = await renderPaywall({ resourceUrl: server.url });
+    cleanups.push(paywall.unmount);
+
+    await paywall.click('Connect Local Key Wallet');
+    server.setAccepts([{ ...requirement, maxAmountRequired: '5000' }]);
+    await paywall.click('Authorize 0.0025 USDC');
+    await waitFor(() =>
+      expect(paywall.container.textContent).toContain(
+        'The price changed from 0.0025 USDC to 0.005 USDC.',
+      ),
+    );
+
+    expect(paywall.errors).toHaveLength(0);
+    expect(server.payments).toHaveLength(0);
+
+    await paywall.click('Authorize 0.005 USDC');
+    await waitFor(() => expect(paywall.results).toHaveLength(1));
+
+    expect(server.payments).toHaveLength(1);
+    expect(server.payments[0].requirement.maxAmountRequired).toBe('5000');
+  });
+
+  test('lists one balance row per asset when offers share a network', async () => {
+    const eurc = {
+      ...requirement,
+      asset: EURC_BASE_SEPOLIA,
+      extra: { name: 'EURC', version: '2' },
+    };
+    const server = createMockX402Server({ accepts: [requirement, eurc] });
+    cleanups.push(server.install());
+    const consoleError = spyOn(console, 'error');
+    cleanups.push(() => consoleError.mockRestore());
+    const paywall = await renderPaywall({ resourceUrl: server.url });
+    cleanups.push(paywall.unmount);
+
+    await paywall.click('Connect Local Key Wallet');
+    await waitFor(() =>
+      expect(paywall.container.querySelectorAll('.x402-paywall__balance-row')).toHaveLength(2),
+    );
+    const keyWarnings = consoleError.mock.calls.filter((args) => String(args[0]).includes('key'));
+    expect(keyWarnings).toHaveLength(0);
+  });
+});
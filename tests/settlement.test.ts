@@ -0,0 +1,26 @@
+import { describe, expect, test } from 'bun:test';
+import { readSettlementResponse } from '../src';
+import { buildTransactionUrl } from '../src/paywall-helpers';
+import { encodeBase64Json } from '../src/utils';
+
+const transaction = `0x${'ab'.repeat(32)}`;
+
+function settle(header: string, network: string) {
+  return new Response(null, {
+    headers: { [header]: encodeBase64Json({ success: true, transaction, network }) },
+  });
+}
+
+describe('settlement responses', () => {
+  test('normalizes v1 network names to CAIP-2 ids', () => {
+    const settlement = readSettlementResponse(settle('X-PAYMENT-RESPONSE', 'base-sepolia'));
+    expect(settlement?.network).toBe('eip155:84532');
+    expect(buildTransactionUrl(settlement)).toBe(`https://sepolia.basescan.org/tx/${transaction}`);
+  });
+
+  test('keeps v2 CAIP-2 networks', () => {
+    const settlement = readSettlementResponse(settle('PAYMENT-RESPONSE', 'eip155:8453'));
+    expect(settlement?.network).toBe('eip155:8453');
+    expect(buildTransactionUrl(settlement)).toBe(`https://basescan.org/tx/${transaction}`);
+  });
+});
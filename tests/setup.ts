@@ -0,0 +1,4 @@
+import { GlobalRegistrator } from '@happy-dom/global-registrator';
+
+// Paid PDFs render into blob: iframes, which the DOM should not try to navigate.
+GlobalRegistrator.register({ settings: { navigation: { disableChildFrameNavigation: true } } });
@@ -0,0 +1,72 @@
+import { describe, expect, test } from 'bun:test';
+import { encodePaymentRequired, validatePaymentRequired } from '../src';
+import { requirement } from './fixtures';
+
+function issueCodes(raw: unknown) {
+  return validatePaymentRequired(raw).issues.map(({ path, code }) => `${path}:${code}`);
+}
+
+describe('validatePaymentRequired', () => {
+  test('accepts encoded v1 and v2 requirements', () => {
+    for (const x402Version of [1, 2]) {
+      const result = validatePaymentRequired(
+        encodePaymentRequired({ x402Version, accepts: [requirement] }),
+      );
+      expect(result.issues).toEqual([]);
+      expect(result.valid).toBe(true);
+      expect(result.paymentRequired?.accepts[0].network).toBe('eip155:84532');
+    }
+  });
+
+  test('rejects non-objects, unknown versions and empty accepts', () => {
+    expect(issueCodes(null)).toEqual(['paymentRequired:invalid_type']);
+    expect(issueCodes({ x402Version: 7, accepts: [] })).toEqual([
+      'x402Version:unsupported_version',
+    ]);
+    expect(issueCodes({ x402Version: 2, accepts: [] })).toEqual(['accepts:empty_accepts']);
+  });
+
+  test('reports every invalid field with its path', () => {
+    expect(
+      issueCodes({
+        x402Version: 2,
+        accepts: [
+          requirement,
+          {
+            scheme: 'exact',
+            network: 'solana:mainnet',
+            amount: '0',
+            payTo: '0x12',
+            maxTimeoutSeconds: -1,
+            extra: { decimals: 99, symbol: '' },
+          },
+        ],
+      }),
+    ).toEqual([
+      'accepts[1].network:unsupported_network',
+      'accepts[1].amount:invalid_amount',
+      'accepts[1].payTo:invalid_address',
+      'accepts[1].asset:required',
+      'accepts[1].maxTimeoutSeconds:invalid_timeout',
+      'accepts[1].extra.name:missing_domain',
+      'accepts[1].extra.version:missing_domain',
+      'accepts[1].extra.decimals:invalid_extra',
+      'accepts[1].extra.symbol:invalid_extra',
+    ]);
+  });
+
+  test('keeps the valid requirements when others have issues', () => {
+    const result = validatePaymentRequired({
+      x402Version: 1,
+      accepts: [{ ...requirement, network: 'not a network' }, requirement],
+    });
+    expect(result.valid).toBe(false);
+    expect(result.issues.map((issue) => issue.code)).toEqual(['invalid_network']);
+    expect(result.paymentRequired?.accepts).toHaveLength(1);
+  });
+
+  test('only requires the EIP-712 domain for transfer methods that sign with it', () => {
+    const permit2 = { ...requirement, extra: { assetTransferMethod: 'permit2' } };
+    expect(issueCodes({ x402Version: 1, accepts: [permit2] })).toEqual([]);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, test } from 'bun:test';
+import { decodePaymentSignature, verifyPaymentSignature } from '../src/server';
+import { PAY_TO, payer, requirement, signPayment } from './fixtures';
+
+const OTHER_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+
+describe('verifyPaymentSignature', () => {
+  test('accepts a payment signed for the requirement', async () => {
+    const { paymentHeader } = await signPayment(requirement);
+    const result = await verifyPaymentSignature({ payment: paymentHeader, requirement });
+
+    expect(result.reasons).toEqual([]);
+    expect(result.isValid).toBe(true);
+    expect(result.payer).toBe(payer.address);
+    expect(result.authorization?.to).toBe(PAY_TO);
+  });
+
+  test('rejects a header that does not decode', async () => {
+    const result = await verifyPaymentSignature({ payment: 'not-base64', requirement });
+    expect(result.reasons).toEqual(['invalid_payload']);
+    expect(decodePaymentSignature('not-base64')).toBeNull();
+  });
+
+  test('reports unsupported versions and schemes', async () => {
+    const { paymentPayload } = await signPayment(requirement);
+    const result = await verifyPaymentSignature({
+      payment: { ...paymentPayload, x402Version: 99, scheme: 'upto' },
+      requirement,
+    });
+    expect(result.reasons).toContain('unsupported_version');
+    expect(result.reasons).toContain('unsupported_scheme');
+  });
+
+  test('reports a payment for another network', async () => {
+    const { paymentPayload } = await signPayment(requirement);
+    const result = await verifyPaymentSignature({
+      payment: paymentPayload,
+      requirement: { ...requirement, network: 'eip155:8453' },
+    });
+    expect(result.isValid).toBe(false);
+    expect(result.reasons).toContain('network_mismatch');
+  });
+
+  test('reports a missing EIP-712 domain', async () => {
+    const { paymentPayload } = await signPayment(requirement);
+    const result = await verifyPaymentSignature({
+      payment: { ...paymentPayload, payload: { signature: paymentPayload.payload.signature } },
+      requirement: { ...requirement, extra: {} },
+    });
+    expect(result.reasons).toEqual(['missing_domain']);
+  });
+
+  test('reports a malformed Permit2 payload as invalid rather than missing a domain', async () => {
+    const permit2 = { ...requirement, extra: { assetTransferMethod: 'permit2' } };
+    const { paymentPayload } = await signPayment(requirement);
+    const result = await verifyPaymentSignature({
+      payment: { ...paymentPayload, payload: { signature: paymentPayload.payload.signature } },
+      requirement: permit2,
+    });
+    expect(result.reasons).toEqual(['invalid_payload']);
+  });
+
+  test('reports the wrong recipient and too small an amount', async () => {
+    const { paymentPayload } = await signPayment(requirement);
+    const result = await verifyPaymentSignature({
+      payment: paymentPayload,
+      requirement: {
+        ...requirement,
+        payTo: '0x000000000000000000000000000000000000dEaD',
+        maxAmountRequired: '5000',
+      },
+    });
+    expect(result.reasons).toContain('recipient_mismatch');
+    expect(result.reasons).toContain('insufficient_amount');
+  });
+
+  test('reports authorizations outside their validity window', async () => {
+    const { paymentPayload } = await signPayment(requirement);
+    const early = await verifyPaymentSignature({ payment: paymentPayload, requirement, now: 0 });
+    const late = await verifyPaymentSignature({
+      payment: paymentPayload,
+      requirement,
+      now: Math.floor(Date.now() / 1000) + 2 * 3600,
+    });
+    expect(early.reasons).toEqual(['not_yet_valid']);
+    expect(late.reasons).toEqual(['expired']);
+  });
+
+  test('reports a signature from someone other than the payer', async () => {
+    const { paymentPayload } = await signPayment(requirement, { privateKey: OTHER_KEY });
+    const authorization = { ...paymentPayload.payload.authorization!, from: payer.address };
+    const result = await verifyPaymentSignature({
+      payment: { ...paymentPayload, payload: { ...paymentPayload.payload, authorization } },
+      requirement,
+    });
+    expect(result.isValid).toBe(false);
+    expect(result.payer).toBeNull();
+    expect(result.reasons).toEqual(['signer_mismatch']);
+  });
+
+  test('reports a malformed signature', async () => {
+    const { paymentPayload } = await signPayment(requirement);
+    const result = await verifyPaymentSignature({
+      payment: { ...paymentPayload, payload: { ...paymentPayload.payload, signature: '0x1234' } },
+      requirement,
+    });
+    expect(result.reasons).toContain('invalid_signature');
+  });
+});
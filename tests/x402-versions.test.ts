@@ -0,0 +1,69 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  decodePaymentRequired,
+  DEFAULT_TIMEOUT_SECONDS,
+  encodePaymentRequired,
+  getVersionCodec,
+  X402UnsupportedVersionError,
+  x402V1Codec,
+  x402V2Codec,
+} from '../src';
+import { requirement } from './fixtures';
+
+describe('x402 version codecs', () => {
+  test('maps networks between legacy names and CAIP-2 identifiers', () => {
+    expect(x402V1Codec.toWireNetwork('eip155:84532')).toBe('base-sepolia');
+    expect(x402V1Codec.fromWireNetwork('base-sepolia')).toBe('eip155:84532');
+    expect(x402V2Codec.toWireNetwork('base')).toBe('eip155:8453');
+    expect(x402V2Codec.fromWireNetwork('eip155:8453')).toBe('eip155:8453');
+    expect(x402V1Codec.toWireNetwork('eip155:999')).toBe('eip155:999');
+  });
+
+  test('names the headers for each version', () => {
+    expect(x402V1Codec.paymentSignatureHeader).toBe('X-PAYMENT-SIGNATURE');
+    expect(x402V2Codec.paymentSignatureHeader).toBe('PAYMENT-SIGNATURE');
+    expect(x402V2Codec.paymentResponseHeader).toBe('PAYMENT-RESPONSE');
+  });
+
+  test('encodes v1 with maxAmountRequired and a network name', () => {
+    const encoded = encodePaymentRequired({ x402Version: 1, accepts: [requirement] });
+    const [accept] = encoded.accepts as Record<string, unknown>[];
+    expect(encoded.x402Version).toBe(1);
+    expect(accept.network).toBe('base-sepolia');
+    expect(accept.maxAmountRequired).toBe('2500');
+  });
+
+  test('encodes v2 with amount and a CAIP-2 network', () => {
+    const encoded = encodePaymentRequired({ x402Version: 2, accepts: [requirement] });
+    const [accept] = encoded.accepts as Record<string, unknown>[];
+    expect(accept.network).toBe('eip155:84532');
+    expect(accept.amount).toBe('2500');
+    expect(accept).not.toHaveProperty('maxAmountRequired');
+  });
+
+  test('round-trips requirements through both versions', () => {
+    for (const x402Version of [1, 2]) {
+      const paymentRequired = { x402Version, error: 'expired', accepts: [requirement] };
+      expect(decodePaymentRequired(encodePaymentRequired(paymentRequired))).toEqual({
+        ...paymentRequired,
+        accepts: [{ ...requirement, outputSchema: undefined }],
+      });
+    }
+  });
+
+  test('drops incomplete requirements and defaults the timeout', () => {
+    const { payTo, asset, network, scheme } = requirement;
+    const decoded = decodePaymentRequired({
+      x402Version: 2,
+      accepts: [{ scheme, network, payTo, asset, amount: '10' }, { scheme, network, amount: '10' }],
+    });
+    expect(decoded.accepts).toHaveLength(1);
+    expect(decoded.accepts[0].maxTimeoutSeconds).toBe(DEFAULT_TIMEOUT_SECONDS);
+    expect(decoded.accepts[0].resource).toBe('');
+  });
+
+  test('rejects unknown versions', () => {
+    expect(() => getVersionCodec(3)).toThrow(X402UnsupportedVersionError);
+    expect(() => decodePaymentRequired({ accepts: [] })).toThrow(X402UnsupportedVersionError);
+  });
+});